@@ -4,6 +4,9 @@ import { Server } from "socket.io";
 import { createServer as createViteServer } from "vite";
 import path from "path";
 import { MatchManager } from "./server/MatchManager";
+import { TeamSize } from "./server/Matchmaker";
+import { PlayerStore } from "./server/PlayerStore";
+import { ReplayStore } from "./server/ReplayStore";
 
 async function startServer() {
   const app = express();
@@ -16,12 +19,49 @@ async function startServer() {
   });
 
   const PORT = 3000;
-  const matchManager = new MatchManager();
+  const store = new PlayerStore(process.env.DB_PATH || "polydodge.db");
+  const replays = new ReplayStore(process.env.REPLAY_DIR || "replays");
+  const teamSize = (value?: string) => ["1", "2", "4"].includes(value || "") ? Number(value) as TeamSize : undefined;
+  const matchManager = new MatchManager(store, {
+    teamSizes: {
+      casual: teamSize(process.env.CASUAL_TEAM_SIZE),
+      ranked: teamSize(process.env.RANKED_TEAM_SIZE)
+    },
+    replays
+  });
 
   io.on("connection", (socket) => {
     matchManager.handleConnection(socket);
   });
 
+  app.get("/api/replays", (req, res) => {
+    res.json(replays.list());
+  });
+
+  app.get("/api/replays/:matchId", (req, res) => {
+    const file = replays.find(req.params.matchId);
+    if (!file) return res.status(404).json({ error: "Replay not found" });
+    res.download(file, `${req.params.matchId}.replay`);
+  });
+
+  app.get("/api/matches", (req, res) => {
+    res.json(matchManager.listMatches());
+  });
+
+  app.get("/api/matches/:matchId", (req, res) => {
+    const match = matchManager.getMatch(req.params.matchId);
+    if (!match) return res.status(404).json({ error: "Match not found" });
+    res.json(match);
+  });
+
+  app.get("/api/queues", (req, res) => {
+    res.json(matchManager.listQueues());
+  });
+
+  app.get("/api/health", (req, res) => {
+    res.json(matchManager.health());
+  });
+
   // Vite middleware
   if (process.env.NODE_ENV !== "production") {
     const vite = await createViteServer({
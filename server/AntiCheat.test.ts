@@ -0,0 +1,197 @@
+import { before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Socket } from 'socket.io';
+import { Match } from './Match';
+import { KICK_SUSPICION, addSuspicion, admitInput, createInputGuard, sanitizeInput } from './AntiCheat';
+import { encodeInput } from '../src/game/network/codec';
+import { DEFAULT_RULESET } from '../src/game/rules';
+import { InputPacket, TICK_DT, TICK_RATE } from '../src/game/network/protocol';
+
+const TICK_MS = TICK_DT * 1000;
+
+function input(seq: number, overrides: Partial<InputPacket> = {}): InputPacket {
+  return {
+    seq,
+    timestamp: 0,
+    move: { x: 0, z: 0 },
+    aim: { x: 0, y: 0, z: -1 },
+    sprint: false,
+    block: false,
+    throw: { active: false, charge: 0, curve: 0 },
+    catch: false,
+    ...overrides
+  };
+}
+
+// Just enough of a socket.io socket for a match to talk to
+function fakeSocket(id: string) {
+  const handlers: Record<string, (data: unknown) => void> = {};
+  const sent: string[] = [];
+  const socket = {
+    id,
+    connected: true,
+    data: {} as Record<string, unknown>,
+    handshake: { auth: {} },
+    on(event: string, handler: (data: unknown) => void) { handlers[event] = handler; },
+    emit(event: string) { sent.push(event); },
+    disconnect() { socket.connected = false; }
+  };
+  return { socket, sent, send: (data: unknown) => handlers.input(data) };
+}
+
+function startMatch() {
+  let clock = 1_000_000;
+  const client = fakeSocket('p1');
+  const match = new Match('test', 'custom', { blue: [client.socket as unknown as Socket], red: [] }, DEFAULT_RULESET, {
+    now: () => clock,
+    random: () => 0.5
+  });
+  const player = () => (match as unknown as { players: Map<string, { inputBuffer: InputPacket[]; guard: { suspicion: number } }> }).players.get('p1')!;
+  return { match, client, player, advance: (ms: number) => { clock += ms; } };
+}
+
+before(() => {
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'warn', () => {});
+});
+
+describe('admitInput', () => {
+  it('lets a second of bunched-up inputs through without counting it as a flood', () => {
+    const guard = createInputGuard(0);
+    for (let i = 0; i < TICK_RATE; i++) assert.equal(admitInput(guard, 0), 'accepted');
+  });
+
+  it('drops a short burst over the rate without flagging it', () => {
+    const guard = createInputGuard(0);
+    const results = Array.from({ length: TICK_RATE * 4 }, () => admitInput(guard, 0));
+    assert.ok(results.includes('dropped'));
+    assert.ok(!results.includes('flood'));
+  });
+
+  it('flags a client that stays over the rate', () => {
+    const guard = createInputGuard(0);
+    let now = 0;
+    const results = [];
+    // Three inputs per tick for five seconds
+    for (let i = 0; i < TICK_RATE * 5 * 3; i++) {
+      now += TICK_MS / 3;
+      results.push(admitInput(guard, now));
+    }
+    assert.ok(results.slice(-TICK_RATE).includes('flood'));
+  });
+});
+
+describe('sanitizeInput', () => {
+  it('zeroes NaN fields and reports them', () => {
+    const { input: clean, violations } = sanitizeInput(input(1, {
+      move: { x: NaN, z: 0 },
+      aim: { x: NaN, y: NaN, z: NaN },
+      throw: { active: true, charge: NaN, curve: NaN }
+    }), DEFAULT_RULESET);
+    assert.deepEqual(violations, ['move', 'aim', 'charge', 'curve']);
+    assert.deepEqual(clean.move, { x: 0, z: 0 });
+    assert.equal(clean.throw.charge, 0);
+    assert.equal(clean.throw.curve, 0);
+  });
+
+  it('clamps out-of-range values', () => {
+    const { input: clean, violations } = sanitizeInput(input(1, {
+      move: { x: 3, z: 4 },
+      throw: { active: true, charge: 99, curve: -5 }
+    }), DEFAULT_RULESET);
+    assert.deepEqual(violations, ['move', 'charge', 'curve']);
+    assert.ok(Math.abs(clean.move.x - 0.6) < 1e-9 && Math.abs(clean.move.z - 0.8) < 1e-9);
+    assert.equal(clean.throw.charge, DEFAULT_RULESET.maxCharge);
+    assert.equal(clean.throw.curve, -1);
+  });
+
+  it('passes a clean packet untouched', () => {
+    assert.deepEqual(sanitizeInput(input(1), DEFAULT_RULESET).violations, []);
+  });
+
+  it('accepts a zero aim as no aim', () => {
+    const { input: clean, violations } = sanitizeInput(input(1, { aim: { x: 0, y: 0, z: 0 } }), DEFAULT_RULESET);
+    assert.deepEqual(violations, []);
+    assert.deepEqual(clean.aim, { x: 0, y: 0, z: 0 });
+  });
+
+  it('flags and normalizes an aim of the wrong length', () => {
+    const { input: clean, violations } = sanitizeInput(input(1, { aim: { x: 0, y: 0, z: -5 } }), DEFAULT_RULESET);
+    assert.deepEqual(violations, ['aim']);
+    assert.deepEqual(clean.aim, { x: 0, y: 0, z: -1 });
+  });
+});
+
+describe('addSuspicion', () => {
+  it('kicks at the threshold and wears off over time', () => {
+    const guard = createInputGuard(0);
+    assert.equal(addSuspicion(guard, 'malformed', 0), false);
+    assert.equal(addSuspicion(guard, 'malformed', 10_000), false);
+    assert.ok(guard.suspicion < 40);
+    let kicked = false;
+    for (let i = 0; i < KICK_SUSPICION && !kicked; i++) kicked = addSuspicion(guard, 'malformed', 10_000);
+    assert.ok(kicked);
+  });
+});
+
+describe('match input handling', () => {
+  it('rejects oversized packets', () => {
+    const { client, player } = startMatch();
+    const oversized = new Uint8Array(4096);
+    oversized.set(encodeInput(input(1)));
+    client.send(oversized);
+    assert.equal(player().inputBuffer.length, 0);
+    assert.ok(player().guard.suspicion > 0);
+  });
+
+  it('rejects truncated and non-binary packets', () => {
+    const { client, player } = startMatch();
+    client.send(encodeInput(input(1)).slice(0, 10));
+    client.send('not an input');
+    client.send(null);
+    assert.equal(player().inputBuffer.length, 0);
+  });
+
+  it('kicks a client that keeps sending garbage', () => {
+    const { client } = startMatch();
+    for (let i = 0; i < 10; i++) client.send(new Uint8Array(3));
+    assert.ok(client.sent.includes('kicked'));
+    assert.equal(client.socket.connected, false);
+  });
+
+  it('ignores replayed sequence numbers', () => {
+    const { match, client, player, advance } = startMatch();
+    client.send(encodeInput(input(5)));
+    client.send(encodeInput(input(5)));
+    assert.equal(player().inputBuffer.length, 1);
+
+    advance(TICK_MS);
+    match.step();
+    client.send(encodeInput(input(5)));
+    client.send(encodeInput(input(3)));
+    assert.equal(player().inputBuffer.length, 0);
+  });
+
+  it('survives a network stall', () => {
+    const { client, advance } = startMatch();
+    let seq = 0;
+    for (let i = 0; i < TICK_RATE; i++) {
+      advance(TICK_MS);
+      client.send(encodeInput(input(++seq)));
+    }
+    // Nothing for a second, then all of it at once
+    advance(1000);
+    for (let i = 0; i < TICK_RATE; i++) client.send(encodeInput(input(++seq)));
+    assert.ok(!client.sent.includes('kicked'));
+  });
+
+  it('kicks a client that floods', () => {
+    const { client, advance } = startMatch();
+    let seq = 0;
+    for (let i = 0; i < TICK_RATE * 10 && !client.sent.includes('kicked'); i++) {
+      advance(TICK_MS);
+      for (let j = 0; j < 4; j++) client.send(encodeInput(input(++seq)));
+    }
+    assert.ok(client.sent.includes('kicked'));
+  });
+});
@@ -0,0 +1,117 @@
+import { InputPacket, TICK_RATE } from '../src/game/network/protocol';
+import { Ruleset } from '../src/game/rules';
+
+// Checks on what clients send. Inputs are clamped into range either way; each violation also adds to
+// a per-player suspicion score that slowly wears off, and a player who keeps it up gets kicked.
+
+// A client sends one input per tick. The bucket holds two seconds of them, so the backlog from a network
+// stall gets through; past that, extra inputs are dropped. Only a client that stays over the rate for
+// FLOOD_AFTER_MS is treated as flooding.
+const INPUT_BURST = TICK_RATE * 2;
+const INPUT_RATE = TICK_RATE * 1.05;
+const FLOOD_AFTER_MS = 2000;
+const FLOOD_GAP_MS = 1000; // A pause this long without a dropped input ends an over-rate stretch
+
+const MOVE_TOLERANCE = 0.02; // Quantizing a diagonal rounds it a little over 1
+const AIM_TOLERANCE = 0.05;
+const CHARGE_STEP = 1 / 80; // Resolution of the charge on the wire
+export const CHARGE_TOLERANCE = 0.2; // Seconds; the client charges per frame, the server per tick
+
+export const KICK_SUSPICION = 100;
+const SUSPICION_DECAY = 2; // Per second
+
+export type InputViolation = 'flood' | 'malformed' | 'move' | 'aim' | 'charge' | 'curve' | 'overcharge';
+
+const SUSPICION: Record<InputViolation, number> = {
+  flood: 5,
+  malformed: 20,
+  move: 10,
+  aim: 5,
+  charge: 10,
+  curve: 10,
+  overcharge: 15 // Claimed more charge than the ball was held for
+};
+
+export interface InputGuard {
+  tokens: number;
+  refilledAt: number;
+  overRateSince: number | null; // First dropped input of the current over-rate stretch
+  droppedAt: number;
+  suspicion: number;
+  decayedAt: number;
+}
+
+export function createInputGuard(now: number): InputGuard {
+  return { tokens: INPUT_BURST, refilledAt: now, overRateSince: null, droppedAt: 0, suspicion: 0, decayedAt: now };
+}
+
+// 'dropped': over the rate, so the input is thrown away. 'flood': the same, and it has gone on long enough to count
+export type Admission = 'accepted' | 'dropped' | 'flood';
+
+// Takes one input from the bucket
+export function admitInput(guard: InputGuard, now: number): Admission {
+  guard.tokens = Math.min(INPUT_BURST, guard.tokens + (now - guard.refilledAt) / 1000 * INPUT_RATE);
+  guard.refilledAt = now;
+  if (guard.tokens >= 1) {
+    guard.tokens--;
+    return 'accepted';
+  }
+
+  if (guard.overRateSince === null || now - guard.droppedAt > FLOOD_GAP_MS) guard.overRateSince = now;
+  guard.droppedAt = now;
+  return now - guard.overRateSince >= FLOOD_AFTER_MS ? 'flood' : 'dropped';
+}
+
+// Returns true once the player has earned a kick
+export function addSuspicion(guard: InputGuard, violation: InputViolation, now: number) {
+  guard.suspicion = Math.max(0, guard.suspicion - (now - guard.decayedAt) / 1000 * SUSPICION_DECAY);
+  guard.decayedAt = now;
+  guard.suspicion += SUSPICION[violation];
+  return guard.suspicion >= KICK_SUSPICION;
+}
+
+// A copy of the packet with every field in range, and what had to be fixed to get there
+export function sanitizeInput(packet: InputPacket, rules: Ruleset): { input: InputPacket; violations: InputViolation[] } {
+  const violations: InputViolation[] = [];
+  const finite = (value: number) => Number.isFinite(value) ? value : 0;
+
+  const move = { x: finite(packet.move.x), z: finite(packet.move.z) };
+  const moveLength = Math.sqrt(move.x * move.x + move.z * move.z);
+  if (move.x !== packet.move.x || move.z !== packet.move.z || moveLength > 1 + MOVE_TOLERANCE) {
+    violations.push('move');
+    if (moveLength > 1) {
+      move.x /= moveLength;
+      move.z /= moveLength;
+    }
+  }
+
+  const aim = { x: finite(packet.aim.x), y: finite(packet.aim.y), z: finite(packet.aim.z) };
+  const aimLength = Math.sqrt(aim.x * aim.x + aim.y * aim.y + aim.z * aim.z);
+  const notFinite = aim.x !== packet.aim.x || aim.y !== packet.aim.y || aim.z !== packet.aim.z;
+  // A zero aim means no aim, as from an idle input; it is fine, and throws then go where the player faces
+  if (notFinite || (aimLength > 0 && Math.abs(aimLength - 1) > AIM_TOLERANCE)) {
+    violations.push('aim');
+    if (aimLength > 0) {
+      aim.x /= aimLength;
+      aim.y /= aimLength;
+      aim.z /= aimLength;
+    }
+  }
+
+  let charge = finite(packet.throw.charge);
+  if (charge !== packet.throw.charge || charge < 0 || charge > rules.maxCharge + CHARGE_STEP) {
+    violations.push('charge');
+    charge = Math.max(0, Math.min(rules.maxCharge, charge));
+  }
+
+  let curve = finite(packet.throw.curve);
+  if (curve !== packet.throw.curve || Math.abs(curve) > 1) {
+    violations.push('curve');
+    curve = Math.max(-1, Math.min(1, curve));
+  }
+
+  return {
+    input: { ...packet, move, aim, throw: { active: packet.throw.active, charge, curve } },
+    violations
+  };
+}
@@ -0,0 +1,260 @@
+import * as THREE from 'three';
+import { BotAI, BotPersonality, IGameContext } from '../src/game/BotAI';
+import { BallData, PlayerData } from '../src/game/constants';
+import { BALL } from '../src/game/physics/ball';
+import { MOVEMENT, onOpposingSide } from '../src/game/physics/movement';
+import { THROW, clampCharge } from '../src/game/physics/throw';
+import { Ruleset } from '../src/game/rules';
+import { Runtime } from '../src/game/runtime';
+import { BallSnapshot, InputPacket, PlayerSnapshot } from '../src/game/network/protocol';
+
+export type BotDifficulty = 'Easy' | 'Medium' | 'Hard' | 'Insane';
+
+// Player pos on the server is body center, BotAI works with the feet like the client meshes
+const BODY_CENTER = 1.05;
+const RELEASE_HEIGHT = 1.6; // Throws leave from eye height
+const TARGET_ALIGNMENT = 0.9; // How closely a throw has to point at an enemy to be aimed at them
+// Top speed from walking alone; BotAI asks for speeds, inputs ask for a share of this
+const WALK_SPEED = MOVEMENT.walkAcceleration / MOVEMENT.friction;
+// BotAI grabs from further away than the server lets anyone pick up, so the bot walks in closer first
+const PICKUP_REACH = 1.5;
+
+interface DrivenBot {
+  ai: BotAI;
+  seq: number;
+  pickup: number | null; // Ball the bot wants to pick up
+  throw: { aim: InputPacket['aim']; charge: number; curve: number } | null; // Throw to send with the next input
+}
+
+// Lets the client's BotAI play inside a Match. Every tick the match state is mirrored into the
+// meshes and data BotAI reads, and whatever BotAI then does to them is turned into an InputPacket,
+// so bots go through the same movement, throw and catch rules as everyone else.
+export class BotDriver implements IGameContext {
+  public players: Map<string, { data: PlayerData; mesh: THREE.Group }> = new Map();
+  public balls: Map<number, { data: BallData; mesh: THREE.Mesh }> = new Map();
+  public claimedBallIds: Set<number> = new Set();
+
+  private bots: Map<string, DrivenBot> = new Map();
+  private rules: Ruleset;
+  private runtime: Runtime;
+
+  constructor(rules: Ruleset, runtime: Runtime) {
+    this.rules = rules;
+    this.runtime = runtime;
+  }
+
+  public add(id: string, team: 'blue' | 'red', difficulty: BotDifficulty = 'Medium', personality?: BotPersonality) {
+    const entry = this.playerEntry(id, team);
+    this.bots.set(id, { ai: new BotAI(id, entry, this, difficulty, personality), seq: 0, pickup: null, throw: null });
+  }
+
+  public remove(id: string) {
+    this.bots.delete(id);
+  }
+
+  public has(id: string) {
+    return this.bots.has(id);
+  }
+
+  public get size() {
+    return this.bots.size;
+  }
+
+  // Runs every bot for one tick and returns the input each one sends
+  public update(dt: number, players: PlayerSnapshot[], balls: BallSnapshot[]) {
+    this.sync(players, balls);
+    this.claimedBallIds.clear();
+
+    const inputs: { id: string; input: InputPacket }[] = [];
+    this.bots.forEach((bot, id) => {
+      const entry = this.players.get(id);
+      if (!entry || entry.data.isOut) return;
+
+      const before = entry.mesh.position.clone();
+      bot.ai.update(dt);
+      inputs.push({ id, input: this.toInput(bot, entry, before, dt) });
+    });
+    return inputs;
+  }
+
+  // --- IGameContext ---
+
+  public onBallGrabbed(ballId: number, playerId: string) {
+    const bot = this.bots.get(playerId);
+    if (bot) bot.pickup = ballId;
+  }
+
+  public onBallThrown(ballId: number, position: THREE.Vector3, velocity: THREE.Vector3, playerId: string, type: 'normal' | 'curve' | 'lob', curveFactor: number) {
+    const bot = this.bots.get(playerId);
+    const entry = this.players.get(playerId);
+    if (!bot || !entry) return;
+
+    const charge = entry.data.chargeLevel; // Still set: BotAI resets it after this call
+    bot.throw = {
+      aim: this.aimThrow(entry, velocity, charge),
+      charge,
+      curve: type === 'curve' ? Math.sign(curveFactor) : 0
+    };
+  }
+
+  public createTrail() {
+    // Nothing to draw on the server
+  }
+
+  public getRuleset() {
+    return this.rules;
+  }
+
+  public now() {
+    return this.runtime.now();
+  }
+
+  public random() {
+    return this.runtime.random();
+  }
+
+  // --- Mirroring ---
+
+  private sync(players: PlayerSnapshot[], balls: BallSnapshot[]) {
+    const seen = new Set<string>();
+    players.forEach(p => {
+      seen.add(p.id);
+      const { data, mesh } = this.playerEntry(p.id, p.team);
+      mesh.position.set(p.pos.x, p.pos.y - BODY_CENTER, p.pos.z);
+      mesh.rotation.set(0, p.rot.y, 0);
+      mesh.visible = p.state === 'alive';
+      data.position = { x: mesh.position.x, y: mesh.position.y, z: mesh.position.z };
+      data.rotation = { y: p.rot.y };
+      data.isOut = p.state !== 'alive';
+      data.stamina = p.stamina;
+      data.holdingBallId = p.holding;
+      data.isBlocking = p.blocking;
+      if (p.holding === null) data.chargeLevel = 0;
+    });
+    this.players.forEach((_, id) => {
+      if (!seen.has(id)) this.players.delete(id);
+    });
+
+    balls.forEach(b => {
+      let entry = this.balls.get(b.id);
+      if (!entry) {
+        entry = {
+          data: { id: b.id, position: { ...b.pos }, velocity: { ...b.vel }, owner: null, state: 'idle', isLive: false, type: 'normal', curveFactor: 0, lastInteractionTime: 0 },
+          mesh: new THREE.Mesh()
+        };
+        this.balls.set(b.id, entry);
+      }
+      const { data, mesh } = entry;
+      // BotAI times holds from lastInteractionTime, so restart it whenever the ball changes hands
+      if (b.state === 'held' && (data.state !== 'held' || data.owner !== b.owner)) data.lastInteractionTime = this.runtime.now();
+      mesh.position.set(b.pos.x, b.pos.y, b.pos.z);
+      data.position = { ...b.pos };
+      data.velocity = { ...b.vel };
+      data.owner = b.owner;
+      data.state = b.state;
+      data.isLive = b.state === 'thrown';
+      data.type = b.type;
+    });
+  }
+
+  private playerEntry(id: string, team: 'blue' | 'red') {
+    let entry = this.players.get(id);
+    if (!entry) {
+      entry = {
+        data: {
+          id,
+          position: { x: 0, y: 0, z: 0 },
+          rotation: { y: 0 },
+          team,
+          score: 0,
+          holdingBallId: null,
+          isOut: false,
+          stamina: this.rules.maxStamina,
+          maxStamina: this.rules.maxStamina,
+          isBlocking: false,
+          chargeLevel: 0,
+          rank: 'Bot',
+          level: 1,
+          xp: 0
+        },
+        mesh: new THREE.Group()
+      };
+      this.players.set(id, entry);
+    }
+    return entry;
+  }
+
+  // BotAI picks the heading from its own, simpler throw. Keep that heading and pitch the throw so the
+  // server's launch, released from eye height, drops onto the chest of the enemy it points at.
+  private aimThrow(entry: { data: PlayerData; mesh: THREE.Group }, velocity: THREE.Vector3, charge: number): InputPacket['aim'] {
+    const raw = velocity.clone().normalize();
+    const flat = Math.sqrt(raw.x * raw.x + raw.z * raw.z);
+    if (flat === 0) return { x: raw.x, y: raw.y, z: raw.z };
+    const heading = { x: raw.x / flat, z: raw.z / flat };
+
+    const from = entry.mesh.position;
+    let distance: number | null = null;
+    let bestAlignment = TARGET_ALIGNMENT;
+    this.players.forEach(p => {
+      if (p.data.team === entry.data.team || p.data.isOut) return;
+      const dx = p.mesh.position.x - from.x;
+      const dz = p.mesh.position.z - from.z;
+      const dist = Math.sqrt(dx * dx + dz * dz);
+      const alignment = dist > 0 ? (dx * heading.x + dz * heading.z) / dist : 0;
+      if (alignment > bestAlignment) {
+        bestAlignment = alignment;
+        distance = dist;
+      }
+    });
+    if (distance === null) return { x: raw.x, y: raw.y, z: raw.z };
+
+    const speed = THROW.basePower + clampCharge(charge, this.rules) * THROW.chargePower;
+    const time = distance / speed;
+    const rise = (BODY_CENTER - RELEASE_HEIGHT + 0.5 * BALL.gravity * time * time) / time;
+    // computeThrow tilts flat throws up by THROW.tilt, so take that back off
+    const aim = new THREE.Vector3(heading.x * speed, rise - THROW.tilt * speed, heading.z * speed).normalize();
+    return { x: aim.x, y: aim.y, z: aim.z };
+  }
+
+  // BotAI moved and turned the mesh; ask the server for the same
+  private toInput(bot: DrivenBot, entry: { data: PlayerData; mesh: THREE.Group }, before: THREE.Vector3, dt: number): InputPacket {
+    const pos = entry.mesh.position;
+    const move = { x: (pos.x - before.x) / dt / WALK_SPEED, z: (pos.z - before.z) / dt / WALK_SPEED };
+    const facing = new THREE.Vector3(0, 0, 1).applyQuaternion(entry.mesh.quaternion);
+    let catchPressed = false;
+
+    if (bot.pickup !== null) {
+      const ball = this.balls.get(bot.pickup);
+      // BotAI's idea of its own half reaches past the line; reaching over would be a foul
+      if (!ball || ball.data.state !== 'idle' || entry.data.holdingBallId !== null || onOpposingSide(ball.mesh.position.z, entry.data.team, this.rules.centerLine)) {
+        bot.pickup = null;
+      } else {
+        const dx = ball.mesh.position.x - before.x;
+        const dz = ball.mesh.position.z - before.z;
+        const dist = Math.sqrt(dx * dx + dz * dz);
+        if (dist < PICKUP_REACH) {
+          catchPressed = true;
+          bot.pickup = null;
+        } else {
+          move.x = dx / dist;
+          move.z = dz / dist;
+        }
+      }
+    }
+
+    const throwInput = bot.throw;
+    bot.throw = null;
+    const aim = throwInput ? throwInput.aim : { x: facing.x, y: 0, z: facing.z };
+
+    return {
+      seq: ++bot.seq,
+      timestamp: this.runtime.now(),
+      move,
+      aim,
+      sprint: Math.sqrt(move.x * move.x + move.z * move.z) > 1,
+      block: entry.data.isBlocking,
+      throw: throwInput ? { active: true, charge: throwInput.charge, curve: throwInput.curve } : { active: false, charge: 0, curve: 0 },
+      catch: catchPressed
+    };
+  }
+}
@@ -0,0 +1,96 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as THREE from 'three';
+import { MAX_REWIND_MS, createPingState, nextPing, packetLoss, receivePong, rewindPosition, rewindTicks } from './LagCompensation';
+import { INTERPOLATION_DELAY, MAX_INTERPOLATION_DELAY, TICK_DT } from '../src/game/network/protocol';
+
+const TICK_MS = TICK_DT * 1000;
+
+// Player 'p' moves 1m along x per tick, ticks 10 to 20
+function history() {
+  const ticks = new Map<number, Map<string, THREE.Vector3>>();
+  for (let tick = 10; tick <= 20; tick++) ticks.set(tick, new Map([['p', new THREE.Vector3(tick, 1, 0)]]));
+  return ticks;
+}
+
+describe('rewindTicks', () => {
+  it('covers half the round trip plus the interpolation delay', () => {
+    assert.equal(rewindTicks(100, 50), 100 / TICK_MS);
+    assert.equal(rewindTicks(60, 80), 110 / TICK_MS);
+  });
+
+  it('uses the default interpolation delay when none is given', () => {
+    assert.equal(rewindTicks(0), INTERPOLATION_DELAY / TICK_MS);
+  });
+
+  it(`caps the rewind at ${MAX_REWIND_MS}ms`, () => {
+    assert.equal(rewindTicks(2000), MAX_REWIND_MS / TICK_MS);
+    assert.equal(rewindTicks(200, MAX_INTERPOLATION_DELAY), MAX_REWIND_MS / TICK_MS);
+    assert.equal(rewindTicks(400, 0, 100), 100 / TICK_MS);
+  });
+
+  it('never rewinds into the future', () => {
+    assert.equal(rewindTicks(-500, 0), 0);
+  });
+});
+
+describe('rewindPosition', () => {
+  it('returns the stored position on a whole tick', () => {
+    assert.deepEqual(rewindPosition(history(), 20, 3, 'p'), new THREE.Vector3(17, 1, 0));
+  });
+
+  it('blends between the ticks around a fractional rewind', () => {
+    const pos = rewindPosition(history(), 20, 2.25, 'p')!;
+    assert.ok(Math.abs(pos.x - 17.75) < 1e-9);
+    assert.equal(pos.y, 1);
+  });
+
+  it('falls back to the one stored tick at the edge of the history', () => {
+    assert.deepEqual(rewindPosition(history(), 20, 10.5, 'p'), new THREE.Vector3(10, 1, 0));
+    assert.deepEqual(rewindPosition(history(), 20, -0.5, 'p'), new THREE.Vector3(20, 1, 0));
+  });
+
+  it('returns null once the tick has left the history or for unknown players', () => {
+    assert.equal(rewindPosition(history(), 20, 12, 'p'), null);
+    assert.equal(rewindPosition(history(), 20, 2, 'nobody'), null);
+  });
+
+  it('leaves the history untouched', () => {
+    const ticks = history();
+    rewindPosition(ticks, 20, 2.5, 'p')!.set(0, 0, 0);
+    rewindPosition(ticks, 20, 2, 'p')!.set(0, 0, 0);
+    assert.deepEqual(ticks.get(18)!.get('p'), new THREE.Vector3(18, 1, 0));
+  });
+});
+
+describe('ping state', () => {
+  it('measures the round trip and smooths later samples', () => {
+    const state = createPingState();
+    const ping = nextPing(state, 0);
+    assert.equal(ping.rtt, null);
+    assert.ok(receivePong(state, { id: ping.id, interpolationDelay: 120 }, 100));
+    assert.equal(state.rtt, 100);
+    assert.equal(state.interpolationDelay, 120);
+
+    const second = nextPing(state, 1000);
+    receivePong(state, { id: second.id, interpolationDelay: 120 }, 1200);
+    assert.ok(state.rtt! > 100 && state.rtt! < 200);
+  });
+
+  it('rejects unknown and repeated pongs', () => {
+    const state = createPingState();
+    const ping = nextPing(state, 0);
+    assert.equal(receivePong(state, { id: ping.id + 1, interpolationDelay: 100 }, 50), false);
+    assert.ok(receivePong(state, { id: ping.id, interpolationDelay: 100 }, 50));
+    assert.equal(receivePong(state, { id: ping.id, interpolationDelay: 100 }, 60), false);
+  });
+
+  it('counts pings that time out as lost', () => {
+    const state = createPingState();
+    nextPing(state, 0);
+    const answered = nextPing(state, 1000);
+    receivePong(state, { id: answered.id, interpolationDelay: 100 }, 1050);
+    nextPing(state, 5000);
+    assert.equal(packetLoss(state), 0.5);
+  });
+});
@@ -0,0 +1,81 @@
+import * as THREE from 'three';
+import { INTERPOLATION_DELAY, MAX_INTERPOLATION_DELAY, MIN_INTERPOLATION_DELAY, PingPacket, PongPacket, TICK_DT } from '../src/game/network/protocol';
+
+// Never rewind further than this, so a laggy thrower can't hit someone who has long been behind cover
+export const MAX_REWIND_MS = 250;
+
+export const PING_INTERVAL_MS = 1000;
+const PING_TIMEOUT_MS = 3000; // A ping unanswered for this long counts as lost
+const LOSS_WINDOW = 20; // Loss is measured over this many pings
+
+// How much each new round trip sample moves the running estimate
+const RTT_SMOOTHING = 0.2;
+
+export interface PingState {
+  nextId: number;
+  pending: Map<number, number>; // Ping id -> when it was sent
+  rtt: number | null; // Smoothed round trip in ms, null until the first pong
+  answered: boolean[]; // Fate of the last LOSS_WINDOW pings, oldest first
+  interpolationDelay: number; // What the client last reported
+}
+
+export function createPingState(): PingState {
+  return { nextId: 0, pending: new Map(), rtt: null, answered: [], interpolationDelay: INTERPOLATION_DELAY };
+}
+
+// Gives up on pings that timed out and returns the next one to send
+export function nextPing(state: PingState, now: number): PingPacket {
+  state.pending.forEach((sentAt, id) => {
+    if (now - sentAt < PING_TIMEOUT_MS) return;
+    state.pending.delete(id);
+    recordAnswer(state, false);
+  });
+
+  const id = ++state.nextId;
+  state.pending.set(id, now);
+  return { id, serverTime: now, rtt: state.rtt === null ? null : Math.round(state.rtt), loss: packetLoss(state) };
+}
+
+// Returns false for pongs to pings that were never sent or already gave up
+export function receivePong(state: PingState, pong: PongPacket, now: number) {
+  const sentAt = state.pending.get(pong.id);
+  if (sentAt === undefined) return false;
+  state.pending.delete(pong.id);
+  recordAnswer(state, true);
+
+  const sample = now - sentAt;
+  state.rtt = state.rtt === null ? sample : state.rtt + (sample - state.rtt) * RTT_SMOOTHING;
+  if (Number.isFinite(pong.interpolationDelay)) {
+    state.interpolationDelay = Math.min(MAX_INTERPOLATION_DELAY, Math.max(MIN_INTERPOLATION_DELAY, pong.interpolationDelay));
+  }
+  return true;
+}
+
+export function packetLoss(state: PingState) {
+  if (state.answered.length === 0) return 0;
+  return state.answered.filter(ok => !ok).length / state.answered.length;
+}
+
+function recordAnswer(state: PingState, ok: boolean) {
+  state.answered.push(ok);
+  if (state.answered.length > LOSS_WINDOW) state.answered.shift();
+}
+
+// Ticks between the server's present and the world the thrower was looking at: their input
+// travelled for half the round trip and they render remote players interpolationDelay in the past.
+// Fractional, since the client's view falls between ticks.
+export function rewindTicks(rtt: number, interpolationDelay: number = INTERPOLATION_DELAY, maxRewindMs: number = MAX_REWIND_MS) {
+  const rewindMs = Math.min(maxRewindMs, Math.max(0, rtt / 2 + interpolationDelay));
+  return rewindMs / (TICK_DT * 1000);
+}
+
+// Position of a player `ticks` ticks before `currentTick`, blended between the two stored ticks around it.
+// Where only one of them is stored (the edge of the history, or the player joined in between) that one is used;
+// null if neither is.
+export function rewindPosition(history: Map<number, Map<string, THREE.Vector3>>, currentTick: number, ticks: number, playerId: string): THREE.Vector3 | null {
+  const target = currentTick - ticks;
+  const older = history.get(Math.floor(target))?.get(playerId);
+  const newer = history.get(Math.ceil(target))?.get(playerId);
+  if (older && newer) return older.clone().lerp(newer, target - Math.floor(target));
+  return (older ?? newer)?.clone() ?? null;
+}
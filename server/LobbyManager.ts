@@ -0,0 +1,200 @@
+import { Socket } from 'socket.io';
+import { PlayerStore } from './PlayerStore';
+import { generateCode } from './codes';
+import { LobbySettings, LobbyState, TeamId } from '../src/game/network/protocol';
+import { RULESET_PRESETS, Ruleset, RulesetPreset, createRuleset, isRulesetPreset } from '../src/game/rules';
+
+export const DEFAULT_LOBBY_SETTINGS: LobbySettings = {
+  preset: 'Classic',
+  teamSize: 2,
+  matchTime: RULESET_PRESETS.Classic.matchTime,
+  ballCount: RULESET_PRESETS.Classic.ballCount,
+  warmup: RULESET_PRESETS.Classic.warmup,
+  catchRevives: RULESET_PRESETS.Classic.catchRevives
+};
+
+// open -> in_match -> open (players return to the room when the match ends)
+export interface Lobby {
+  code: string;
+  host: Socket;
+  state: 'open' | 'in_match';
+  settings: LobbySettings;
+  members: Socket[];
+  teams: Map<string, TeamId | null>; // SocketId -> Team
+}
+
+export class LobbyManager {
+  private lobbies: Map<string, Lobby> = new Map(); // Code -> Lobby
+  private memberships: Map<string, Lobby> = new Map(); // SocketId -> Lobby
+  private store: PlayerStore;
+
+  // Called when the host starts the match
+  public onStart: ((lobby: Lobby, teams: { blue: Socket[]; red: Socket[] }) => void) | null = null;
+
+  constructor(store: PlayerStore) {
+    this.store = store;
+  }
+
+  public get(socket: Socket) {
+    return this.memberships.get(socket.id) ?? null;
+  }
+
+  public create(socket: Socket, settings: Partial<LobbySettings> = {}) {
+    this.leave(socket);
+
+    let code = generateCode();
+    while (this.lobbies.has(code)) code = generateCode();
+
+    const lobby: Lobby = {
+      code,
+      host: socket,
+      state: 'open',
+      settings: sanitizeSettings({ ...DEFAULT_LOBBY_SETTINGS, ...settings }),
+      members: [socket],
+      teams: new Map([[socket.id, null]])
+    };
+    this.lobbies.set(code, lobby);
+    this.memberships.set(socket.id, lobby);
+    this.broadcastState(lobby);
+    return lobby;
+  }
+
+  // Returns an error message, or null on success
+  public join(socket: Socket, code: string): string | null {
+    const lobby = this.lobbies.get(code.trim().toUpperCase());
+    if (!lobby) return 'Lobby not found';
+    if (lobby.members.includes(socket)) return null;
+    if (lobby.state !== 'open') return 'Match already in progress';
+    if (lobby.members.length >= lobby.settings.teamSize * 2) return 'Lobby is full';
+
+    this.leave(socket);
+    lobby.members.push(socket);
+    lobby.teams.set(socket.id, null);
+    this.memberships.set(socket.id, lobby);
+    this.broadcastState(lobby);
+    return null;
+  }
+
+  public leave(socket: Socket) {
+    const lobby = this.memberships.get(socket.id);
+    if (!lobby) return;
+
+    lobby.members = lobby.members.filter(m => m !== socket);
+    lobby.teams.delete(socket.id);
+    this.memberships.delete(socket.id);
+    socket.emit('lobbyState', null);
+
+    if (lobby.members.length === 0) {
+      this.lobbies.delete(lobby.code);
+      return;
+    }
+    if (lobby.host === socket) lobby.host = lobby.members[0];
+    this.broadcastState(lobby);
+  }
+
+  public updateSettings(socket: Socket, settings: Partial<LobbySettings>): string | null {
+    const lobby = this.memberships.get(socket.id);
+    if (!lobby) return 'Not in a lobby';
+    if (lobby.host !== socket) return 'Only the host can change settings';
+    if (lobby.state !== 'open') return 'Match already in progress';
+
+    // Switching preset loads its values first, so the host starts from the preset's defaults
+    const base = isRulesetPreset(settings.preset) && settings.preset !== lobby.settings.preset
+      ? { ...lobby.settings, ...presetSettings(settings.preset) }
+      : lobby.settings;
+    lobby.settings = sanitizeSettings({ ...base, ...settings });
+
+    // Shrinking teams sends the overflow back to unassigned
+    (['blue', 'red'] as TeamId[]).forEach(team => {
+      const members = lobby.members.filter(m => lobby.teams.get(m.id) === team);
+      members.slice(lobby.settings.teamSize).forEach(m => lobby.teams.set(m.id, null));
+    });
+
+    this.broadcastState(lobby);
+    return null;
+  }
+
+  public pickTeam(socket: Socket, team: TeamId | null): string | null {
+    const lobby = this.memberships.get(socket.id);
+    if (!lobby) return 'Not in a lobby';
+    if (lobby.state !== 'open') return 'Match already in progress';
+    if (team !== null && team !== 'blue' && team !== 'red') return 'Unknown team';
+
+    if (team !== null) {
+      const count = lobby.members.filter(m => m !== socket && lobby.teams.get(m.id) === team).length;
+      if (count >= lobby.settings.teamSize) return 'Team is full';
+    }
+
+    lobby.teams.set(socket.id, team);
+    this.broadcastState(lobby);
+    return null;
+  }
+
+  public start(socket: Socket): string | null {
+    const lobby = this.memberships.get(socket.id);
+    if (!lobby) return 'Not in a lobby';
+    if (lobby.host !== socket) return 'Only the host can start the match';
+    if (lobby.state !== 'open') return 'Match already in progress';
+
+    const blue = lobby.members.filter(m => lobby.teams.get(m.id) === 'blue');
+    const red = lobby.members.filter(m => lobby.teams.get(m.id) === 'red');
+    if (blue.length === 0 || red.length === 0) return 'Both teams need at least one player';
+
+    lobby.state = 'in_match';
+    this.broadcastState(lobby);
+    if (this.onStart) this.onStart(lobby, { blue, red });
+    return null;
+  }
+
+  public matchFinished(lobby: Lobby) {
+    if (!this.lobbies.has(lobby.code)) return;
+    lobby.state = 'open';
+    this.broadcastState(lobby);
+  }
+
+  private broadcastState(lobby: Lobby) {
+    const state: LobbyState = {
+      code: lobby.code,
+      hostId: lobby.host.id,
+      state: lobby.state,
+      settings: lobby.settings,
+      players: lobby.members.map(m => ({
+        id: m.id,
+        username: this.store.getProfile(m.data.accountId)?.username ?? 'Player',
+        team: lobby.teams.get(m.id) ?? null
+      }))
+    };
+    lobby.members.forEach(m => m.emit('lobbyState', state));
+  }
+}
+
+function clamp(value: unknown, min: number, max: number, fallback: number) {
+  const n = Number(value);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.max(min, Math.min(max, Math.round(n)));
+}
+
+function presetSettings(preset: RulesetPreset): Partial<LobbySettings> {
+  const { matchTime, ballCount, warmup, catchRevives } = RULESET_PRESETS[preset];
+  return { matchTime, ballCount, warmup, catchRevives };
+}
+
+// Host input is untrusted: coerce every field into its allowed range
+export function sanitizeSettings(settings: Partial<LobbySettings>): LobbySettings {
+  const teamSize = [1, 2, 4].includes(Number(settings.teamSize)) ? Number(settings.teamSize) as LobbySettings['teamSize'] : DEFAULT_LOBBY_SETTINGS.teamSize;
+  const preset = isRulesetPreset(settings.preset) ? settings.preset : DEFAULT_LOBBY_SETTINGS.preset;
+  return {
+    preset,
+    teamSize,
+    matchTime: clamp(settings.matchTime, 60, 600, DEFAULT_LOBBY_SETTINGS.matchTime),
+    ballCount: clamp(settings.ballCount, 2, 12, DEFAULT_LOBBY_SETTINGS.ballCount),
+    warmup: clamp(settings.warmup, 0, 30, DEFAULT_LOBBY_SETTINGS.warmup),
+    catchRevives: Boolean(settings.catchRevives)
+  };
+}
+
+// The lobby's preset with the host's overrides applied
+export function lobbyRuleset(settings: LobbySettings): Ruleset {
+  const { matchTime, ballCount, warmup, catchRevives } = settings;
+  return createRuleset(settings.preset, { matchTime, ballCount, warmup, catchRevives });
+}
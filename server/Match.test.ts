@@ -0,0 +1,94 @@
+import { before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Socket } from 'socket.io';
+import { Match } from './Match';
+import { DEFAULT_RULESET } from '../src/game/rules';
+import { decodeSnapshot } from '../src/game/network/codec';
+import { GameEventBody, TICK_DT, WorldSnapshot } from '../src/game/network/protocol';
+
+// Just enough of a socket.io socket for a match to talk to; keeps every listener and everything sent to it
+function fakeSocket(id: string) {
+  const listeners: Record<string, ((...args: unknown[]) => void)[]> = {};
+  const got: [string, unknown][] = [];
+  const socket = {
+    id,
+    connected: true,
+    data: {} as Record<string, unknown>,
+    handshake: { auth: {} },
+    on(event: string, listener: (...args: unknown[]) => void) { (listeners[event] ??= []).push(listener); },
+    off(event: string, listener: (...args: unknown[]) => void) { listeners[event] = (listeners[event] ?? []).filter(l => l !== listener); },
+    emit(event: string, data?: unknown) { got.push([event, data]); },
+    disconnect() { socket.connected = false; }
+  };
+  const send = (event: string, ...args: unknown[]) => (listeners[event] ?? []).forEach(l => l(...args));
+  return { socket, got, listeners, send, asSocket: () => socket as unknown as Socket };
+}
+
+function createMatch(players: ReturnType<typeof fakeSocket>[] = []) {
+  let clock = 1_000_000;
+  const match = new Match('test', 'custom', { blue: players.map(p => p.asSocket()), red: [] }, DEFAULT_RULESET, {
+    now: () => clock,
+    random: () => 0.5
+  });
+  const step = (ticks = 1) => {
+    for (let i = 0; i < ticks; i++) {
+      clock += TICK_DT * 1000;
+      match.step();
+    }
+  };
+  return { match, step };
+}
+
+before(() => {
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'warn', () => {});
+});
+
+describe('snapshots', () => {
+  it('sends a keyframe to a client whose unacked events fell off the log', () => {
+    const client = fakeSocket('p1');
+    const { match, step } = createMatch([client]);
+    const snapshots = () => client.got.filter(([event]) => event === 'snapshot').map(([, data]) => data as Uint8Array);
+    const decoded: WorldSnapshot[] = [];
+    const decode = (bytes: Uint8Array) => decodeSnapshot(bytes, tick => decoded.find(s => s.tick === tick));
+
+    // Ack the first keyframe so what follows are deltas, then go quiet
+    step(2);
+    decoded.push(decode(snapshots()[0]));
+    client.send('ack', decoded[0].tick);
+    step(2);
+    assert.doesNotThrow(() => decode(snapshots().at(-1)!));
+    assert.throws(() => decodeSnapshot(snapshots().at(-1)!, () => undefined));
+
+    const pushEvent = (body: GameEventBody) => (match as unknown as { pushEvent(body: GameEventBody): void }).pushEvent(body);
+    for (let i = 0; i < 300; i++) pushEvent({ type: 'foul', data: { playerId: 'p1', kind: 'line' } });
+    step(4);
+    const resync = decodeSnapshot(snapshots().at(-1)!, () => undefined);
+    assert.equal(resync.events.length, 256);
+    assert.equal(resync.events.at(-1)!.seq - resync.events[0].seq, 255);
+  });
+});
+
+describe('spectators', () => {
+  it('leaves one pong listener however often a socket starts watching', () => {
+    const { match } = createMatch();
+    match.addBot('blue');
+    match.addBot('red');
+    const viewer = fakeSocket('viewer');
+    for (let i = 0; i < 5; i++) assert.equal(match.addSpectator(viewer.asSocket()), null);
+    assert.equal(viewer.listeners.pong.length, 1);
+    assert.equal(match.spectatorCount, 1);
+
+    match.removeSpectator(viewer.socket.id);
+    assert.equal(viewer.listeners.pong.length, 0);
+  });
+
+  it('takes its listeners off when the match stops', () => {
+    const { match } = createMatch();
+    const viewer = fakeSocket('viewer');
+    match.addSpectator(viewer.asSocket());
+    match.stop();
+    assert.equal(viewer.listeners.pong.length, 0);
+    assert.ok(viewer.got.some(([event]) => event === 'spectateEnded'));
+  });
+});
@@ -1,21 +1,80 @@
 import { Socket } from 'socket.io';
 import * as THREE from 'three';
-import { InputPacket, PlayerSnapshot, BallSnapshot, WorldSnapshot, GameEvent, TICK_RATE, TICK_DT } from '../src/game/network/protocol';
+import { Vec3, stepBall, sweptHit } from '../src/game/physics/ball';
+import { DEFAULT_RULESET, Ruleset } from '../src/game/rules';
+import { REAL_RUNTIME, Runtime } from '../src/game/runtime';
+import { crossedCenterLine, onOpposingSide, stepMovement, useStamina } from '../src/game/physics/movement';
+import { THROW, clampCharge, computeThrow, throwStaminaCost } from '../src/game/physics/throw';
+import { BLOCK, deflect, shieldCovers } from '../src/game/physics/block';
+import { PING_INTERVAL_MS, PingState, createPingState, nextPing, receivePong, rewindPosition, rewindTicks } from './LagCompensation';
+import { BotDifficulty, BotDriver } from './BotDriver';
+import { BotPersonality } from '../src/game/BotAI';
+import { CHARGE_TOLERANCE, InputGuard, InputViolation, addSuspicion, admitInput, createInputGuard, sanitizeInput } from './AntiCheat';
+import { decodeInput, encodeReplay, encodeSnapshot } from '../src/game/network/codec';
+import { InputPacket, PlayerSnapshot, BallSnapshot, WorldSnapshot, GameEvent, GameEventBody, LiveMatchDetails, LiveMatchSummary, MatchResult, MatchMode, PongPacket, ReplayHeader, SpectatePacket, TeamId, SNAPSHOT_HISTORY, TICK_RATE, TICK_DT } from '../src/game/network/protocol';
+
+// Player pos is body center (1.05); the client camera sits at 1.6
+const EYE_OFFSET = 0.55;
+
+// Catching: a press opens a short window, and a window that closes empty-handed locks catching for a moment
+const CATCH_WINDOW_TICKS = Math.round(0.3 * TICK_RATE);
+const CATCH_COOLDOWN_TICKS = Math.round(1.0 * TICK_RATE);
+const CATCH_RANGE = 3.0;
+const CATCH_FACING = 0.5; // Dot product: the ball has to be roughly in front
+const PICKUP_RANGE = 2.0;
+
+// How long a dropped connection may come back to its slot; a bot plays it meanwhile
+const REJOIN_GRACE_MS = 60 * 1000;
+
+// Snapshots are deltas against the last one each client acknowledged, with a keyframe for everyone
+// every KEYFRAME_INTERVAL broadcasts. Acks older than the kept history also get a keyframe.
+const KEYFRAME_INTERVAL = 30;
+
+// Events a client hasn't acknowledged ride along with every snapshot; past this many the oldest are dropped
+// and a client that still missed them gets a keyframe
+const MAX_EVENT_LOG = 256;
+
+// Spectators watch this far behind the match, so a player can't call out positions from a second screen
+const SPECTATOR_DELAY_MS = 5000;
+const MAX_SPECTATORS = 32;
+
+// How many recent tick durations are kept for the health report
+const TICK_TIME_SAMPLES = TICK_RATE * 10;
 
 interface ServerPlayer {
   id: string;
-  socket: Socket;
+  socket: Socket | null; // Null while a bot plays this slot
   team: 'blue' | 'red';
   pos: THREE.Vector3;
   vel: THREE.Vector3;
   rot: number;
   state: 'alive' | 'out' | 'respawning';
   stamina: number;
+  staminaDelay: number;
   holding: number | null;
   blocking: boolean;
   charge: number;
   lastInputSeq: number;
   inputBuffer: InputPacket[];
+  ping: PingState; // Round trip and loss, measured by the server's pings
+  guard: InputGuard; // Input rate limit and suspicion score
+  catchWindow: number; // Ticks left in the open catch window
+  catchCooldown: number; // Ticks until a new catch can be attempted
+  outAt: number; // Tick of the last elimination, revives go oldest first
+  rejoinUntil: number; // Timestamp until which a dropped player may take the slot back
+  ackedTick: number | null; // Latest snapshot the client confirmed, the baseline for its deltas
+  ackedEventSeq: number; // Every event up to this one has reached the client
+  // Match stats
+  eliminations: number;
+  catches: number;
+  throws: number;
+}
+
+interface Spectator {
+  socket: Socket;
+  ping: PingState; // Keeps the spectator's clock in line with the server's
+  sentTick: number | null; // Last frame it was sent, the baseline for its next delta
+  onPong: (pong: PongPacket) => void; // Taken off the socket again when it stops watching
 }
 
 interface ServerBall {
@@ -26,117 +85,339 @@ interface ServerBall {
   owner: string | null;
   type: 'normal' | 'curve' | 'lob';
   curveFactor: number;
-  lastInteraction: number;
+  heldSince: number; // Tick the current holder picked it up
+  holdWarned: boolean;
+  rewindTicks: number; // How far back the thrower's view of the world was
+  charge: number; // Charge of the throw, heavy throws break blocks
 }
 
 export class Match {
   public id: string;
-  public mode: 'casual' | 'ranked';
+  public mode: MatchMode;
   private players: Map<string, ServerPlayer> = new Map();
   private balls: Map<number, ServerBall> = new Map();
-  private events: GameEvent[] = [];
+  private eventLog: { event: GameEvent; to: string | null }[] = []; // Until every client has acknowledged it
+  private eventSeq = 0;
+  private lastPingAt = 0;
+  private replayFrames: WorldSnapshot[] = []; // Everything broadcast so far, with all events; saved when the match ends
+  private recordedEventSeq = 0;
+  private recording = true;
+  private spectators: Map<string, Spectator> = new Map(); // Socket id -> spectator
+  private spectatorFrames: WorldSnapshot[] = []; // Broadcasts waiting out SPECTATOR_DELAY_MS, with their public events
+  private spectatorEventSeq = 0;
+  private spectatorFeed = true; // Until the final state is queued
+  private lastSpectatorFrame: WorldSnapshot | null = null;
+  private spectatorFrameCount = 0;
+  private tickTimes: number[] = []; // ms of wall time per tick, oldest first
   
   private tickInterval: NodeJS.Timeout | null = null;
   private startTime: number = 0;
-  private matchTime: number = 180; // 3 minutes
+  private rules: Ruleset;
+  private runtime: Runtime; // Clock and dice; the simulator swaps in its own
+  private matchTime: number;
   private tickCount: number = 0;
   private lastTickTime: number = 0;
   
   private matchState: 'warmup' | 'playing' | 'finished' = 'warmup';
-  private countdown: number = 5; // 5 seconds warmup
+  private countdown: number;
+  private result: MatchResult | null = null;
+  private shotClocks: Record<TeamId, number | null> = { blue: null, red: null }; // Tick each team's shot clock runs out
+  private bots: BotDriver;
+  private botCount = 0;
+
+  public onFinish: ((result: MatchResult) => void) | null = null;
+  public onReplay: ((header: ReplayHeader, data: Uint8Array) => void) | null = null;
 
   // History Buffer for Lag Compensation (Rewind)
   private history: Map<number, Map<string, THREE.Vector3>> = new Map(); // Tick -> PlayerId -> Pos
   private HISTORY_SIZE = 30; // 1 second history at 30Hz
 
-  constructor(id: string, mode: 'casual' | 'ranked', sockets: Socket[]) {
+  private sentSnapshots: Map<number, { snapshot: WorldSnapshot; eventSeq: number }> = new Map(); // Tick -> delta baseline, last event out by then
+  private broadcastCount = 0;
+
+  constructor(id: string, mode: MatchMode, teams: { blue: Socket[]; red: Socket[] }, rules: Ruleset = DEFAULT_RULESET, runtime: Runtime = REAL_RUNTIME) {
     this.id = id;
     this.mode = mode;
+    this.rules = rules;
+    this.runtime = runtime;
+    this.matchTime = this.rules.matchTime;
+    this.countdown = this.rules.warmup;
     
-    // Initialize Players
-    sockets.forEach((socket, index) => {
-      const team = index % 2 === 0 ? 'blue' : 'red';
-      const spawnZ = team === 'blue' ? -20 : 20;
-      const pos = new THREE.Vector3((Math.random() - 0.5) * 20, 1.05, spawnZ);
-      
-      this.players.set(socket.id, {
-        id: socket.id,
-        socket,
-        team,
-        pos,
-        vel: new THREE.Vector3(),
-        rot: team === 'blue' ? Math.PI : 0,
-        state: 'alive',
-        stamina: 100,
-        holding: null,
-        blocking: false,
-        charge: 0,
-        lastInputSeq: 0,
-        inputBuffer: []
-      });
+    this.bots = new BotDriver(this.rules, this.runtime);
 
-      // Setup Socket Listeners
-      socket.on('input', (packet: InputPacket) => {
-        const p = this.players.get(socket.id);
-        if (p) {
-          // Simple validation: discard old packets
-          if (packet.seq > p.lastInputSeq) {
-            p.inputBuffer.push(packet);
-            // Sort buffer by sequence to ensure order
-            p.inputBuffer.sort((a, b) => a.seq - b.seq);
-          }
-        }
-      });
-
-      socket.emit('init', {
-        playerId: socket.id,
-        matchId: this.id,
-        mode: this.mode,
-        startTime: Date.now() + 5000, // 5s warmup
-        serverTime: Date.now()
-      });
+    // Initialize Players
+    const sockets = [...teams.blue, ...teams.red];
+    sockets.forEach(socket => {
+      const team: TeamId = teams.blue.includes(socket) ? 'blue' : 'red';
+      this.addPlayer(socket.id, team, socket);
+      this.bindSocket(socket.id, socket, false);
     });
 
     // Initialize Balls
-    for (let i = 0; i < 6; i++) {
+    for (let i = 0; i < this.rules.ballCount; i++) {
       this.balls.set(i, {
         id: i,
-        pos: new THREE.Vector3((i - 2.5) * 5, 0.5, 0),
+        pos: this.ballSpawn(i),
         vel: new THREE.Vector3(),
         state: 'idle',
         owner: null,
         type: 'normal',
         curveFactor: 0,
-        lastInteraction: 0
+        heldSince: 0,
+        holdWarned: false,
+        rewindTicks: 0,
+        charge: 0
       });
     }
   }
 
+  private bindSocket(playerId: string, socket: Socket, rejoined: boolean) {
+    socket.on('input', (data: ArrayBuffer) => {
+      const p = this.players.get(playerId);
+      if (!p || p.socket !== socket) return;
+      const admission = admitInput(p.guard, this.runtime.now());
+      if (admission !== 'accepted') {
+        if (admission === 'flood') this.flagInput(p, 'flood');
+        return;
+      }
+
+      let packet: InputPacket;
+      try {
+        packet = decodeInput(data);
+      } catch {
+        this.flagInput(p, 'malformed'); // Wrong size or not binary
+        return;
+      }
+      const { input, violations } = sanitizeInput(packet, this.rules);
+      violations.forEach(v => this.flagInput(p, v));
+      if (p.socket !== socket) return; // Kicked
+
+      // Discard old and repeated packets
+      if (input.seq > p.lastInputSeq && !p.inputBuffer.some(queued => queued.seq === input.seq)) {
+        p.inputBuffer.push(input);
+        // Sort buffer by sequence to ensure order
+        p.inputBuffer.sort((a, b) => a.seq - b.seq);
+      }
+    });
+
+    socket.on('pong', (pong: PongPacket) => {
+      const p = this.players.get(playerId);
+      if (p && p.socket === socket && pong && typeof pong.id === 'number') receivePong(p.ping, pong, this.runtime.now());
+    });
+
+    // A snapshot carries every event the client hadn't acknowledged yet, so acking it covers them all
+    socket.on('ack', (tick: number) => {
+      const p = this.players.get(playerId);
+      const sent = this.sentSnapshots.get(tick);
+      if (!p || p.socket !== socket || !sent) return;
+      if (p.ackedTick === null || tick > p.ackedTick) p.ackedTick = tick;
+      p.ackedEventSeq = Math.max(p.ackedEventSeq, sent.eventSeq);
+    });
+
+    socket.emit('init', {
+      playerId,
+      matchId: this.id,
+      mode: this.mode,
+      rank: socket.data.rank ?? 'Unranked',
+      ruleset: this.rules,
+      startTime: (this.startTime || this.runtime.now()) + this.rules.warmup * 1000,
+      serverTime: this.runtime.now(),
+      rejoined
+    });
+  }
+
+  private addPlayer(id: string, team: TeamId, socket: Socket | null) {
+    const spawnZ = team === 'blue' ? -20 : 20;
+    this.players.set(id, {
+      id,
+      socket,
+      team,
+      pos: new THREE.Vector3((this.runtime.random() - 0.5) * 20, 1.05, spawnZ),
+      vel: new THREE.Vector3(),
+      rot: team === 'blue' ? Math.PI : 0,
+      state: 'alive',
+      stamina: this.rules.maxStamina,
+      staminaDelay: 0,
+      holding: null,
+      blocking: false,
+      charge: 0,
+      lastInputSeq: 0,
+      ping: createPingState(),
+      guard: createInputGuard(this.runtime.now()),
+      catchWindow: 0,
+      catchCooldown: 0,
+      outAt: 0,
+      rejoinUntil: 0,
+      ackedTick: null,
+      ackedEventSeq: 0,
+      inputBuffer: [],
+      eliminations: 0,
+      catches: 0,
+      throws: 0
+    });
+  }
+
+  // Fills an empty slot; call before start()
+  public addBot(team: TeamId, difficulty: BotDifficulty = 'Medium', personality?: BotPersonality) {
+    const id = `bot_${this.botCount++}`;
+    this.addPlayer(id, team, null);
+    this.bots.add(id, team, difficulty, personality);
+    return id;
+  }
+
   public start() {
-    this.startTime = Date.now();
+    this.startTime = this.runtime.now();
     this.lastTickTime = this.startTime;
-    this.tickInterval = setInterval(() => this.tick(), 1000 / TICK_RATE);
+    this.tickInterval = setInterval(() => {
+      const started = performance.now();
+      this.tick();
+      this.tickTimes.push(performance.now() - started);
+      if (this.tickTimes.length > TICK_TIME_SAMPLES) this.tickTimes.shift();
+    }, 1000 / TICK_RATE);
+  }
+
+  // One tick by hand, for headless runs that never start(); the runtime's clock should move TICK_DT per step
+  public step() {
+    this.tick();
   }
 
   public stop() {
     if (this.tickInterval) clearInterval(this.tickInterval);
+    this.spectators.forEach(s => {
+      s.socket.off('pong', s.onPong);
+      s.socket.emit('spectateEnded');
+    });
+    this.spectators.clear();
+  }
+
+  // Returns an error message, or null once the socket is watching
+  public addSpectator(socket: Socket): string | null {
+    if (this.matchState === 'finished') return 'That match is over';
+    this.removeSpectator(socket.id); // Watching again starts over
+    if (this.spectators.size >= MAX_SPECTATORS) return 'No spectator slots left in that match';
+
+    const spectator: Spectator = {
+      socket,
+      ping: createPingState(),
+      sentTick: null,
+      onPong: (pong: PongPacket) => {
+        if (pong && typeof pong.id === 'number') receivePong(spectator.ping, pong, this.runtime.now());
+      }
+    };
+    this.spectators.set(socket.id, spectator);
+    socket.on('pong', spectator.onPong);
+
+    const packet: SpectatePacket = {
+      matchId: this.id,
+      mode: this.mode,
+      ruleset: this.rules,
+      serverTime: this.runtime.now(),
+      delay: SPECTATOR_DELAY_MS
+    };
+    socket.emit('spectateInit', packet);
+    return null;
+  }
+
+  public removeSpectator(socketId: string) {
+    const spectator = this.spectators.get(socketId);
+    if (!spectator) return;
+    spectator.socket.off('pong', spectator.onPong);
+    this.spectators.delete(socketId);
   }
 
+  public get spectatorCount() {
+    return this.spectators.size;
+  }
+
+  // Whether the slot still belongs to its player: connected, or dropped and inside the rejoin grace
+  public holdsSlot(id: string) {
+    const p = this.players.get(id);
+    if (!p || this.matchState === 'finished') return false;
+    return p.socket !== null || this.runtime.now() <= p.rejoinUntil;
+  }
+
+  // A match left to bots alone is over, once nobody can come back to it either. A finished one still
+  // plays out for its spectators, who see the end SPECTATOR_DELAY_MS after the players did.
   public isFinished() {
-    return this.matchTime <= 0 || this.players.size === 0;
+    const now = this.runtime.now();
+    if (this.matchState === 'finished') return this.spectators.size === 0 || this.spectatorFrames.length === 0;
+    return !Array.from(this.players.values()).some(p => p.socket !== null || p.rejoinUntil > now);
+  }
+
+  public getResult() {
+    return this.result;
   }
 
-  public removePlayer(id: string) {
+  public recentTickTimes() {
+    return this.tickTimes.slice();
+  }
+
+  public summary(): LiveMatchSummary {
+    const players = Array.from(this.players.values());
+    return {
+      matchId: this.id,
+      mode: this.mode,
+      preset: this.rules.preset,
+      state: this.matchState,
+      time: this.matchState === 'warmup' ? this.countdown : this.matchTime,
+      score: { blue: this.countEliminations('blue'), red: this.countEliminations('red') },
+      alive: { blue: this.countAlive('blue'), red: this.countAlive('red') },
+      players: players.length,
+      bots: players.filter(p => p.socket === null).length,
+      spectators: this.spectators.size,
+      startedAt: this.startTime
+    };
+  }
+
+  public details(): LiveMatchDetails {
+    return {
+      ...this.summary(),
+      ruleset: this.rules,
+      roster: Array.from(this.players.values()).map(p => ({
+        id: p.id,
+        team: p.team,
+        state: p.state,
+        bot: p.socket === null,
+        eliminations: p.eliminations,
+        catches: p.catches,
+        throws: p.throws
+      })),
+      spectatorSlots: MAX_SPECTATORS - this.spectators.size,
+      winner: this.result?.winner ?? null
+    };
+  }
+
+  private flagInput(p: ServerPlayer, violation: InputViolation) {
+    const socket = p.socket;
+    if (!socket) return;
+    const kick = addSuspicion(p.guard, violation, this.runtime.now());
+    console.warn(`Match ${this.id}: bad input from ${p.id} (${violation}), suspicion ${Math.round(p.guard.suspicion)}.`);
+    if (!kick) return;
+
+    console.warn(`Match ${this.id}: kicked ${p.id} for invalid inputs.`);
+    this.removePlayer(p.id);
+    socket.data.kicked = true; // No rejoining
+    socket.emit('kicked', 'Too many invalid inputs');
+    socket.disconnect(true);
+  }
+
+  // canRejoin: the connection dropped rather than the player leaving, so the slot is held for REJOIN_GRACE_MS
+  public removePlayer(id: string, canRejoin: boolean = false) {
     const p = this.players.get(id);
-    if (p) {
-      // Mark as disconnected but keep in game as a "bot" (simplified)
-      // Ideally we would replace with a real BotAI instance
-      // For now, just stop them moving and maybe auto-throw if holding
-      p.state = 'out'; // Eliminate them for now to avoid zombie players
-      this.events.push({ type: 'elimination', data: { playerId: id, by: 'disconnect' }, timestamp: Date.now() });
+    if (!p) return;
+
+    // Mid-match a bot takes over the slot, keeping the player's id, ball and stats so the teams stay even
+    if (this.matchState !== 'finished') {
+      p.socket = null;
+      p.inputBuffer = [];
+      p.ping = createPingState();
+      p.rejoinUntil = canRejoin ? this.runtime.now() + REJOIN_GRACE_MS : 0;
+      this.bots.add(id, p.team);
+      console.log(`Bot took over for ${id} in match ${this.id}.`);
+      return;
     }
-    
-    // Handle ball drop if holding
+
+    // Handle ball drop if holding (including one in flight that could still be caught)
     this.balls.forEach(b => {
       if (b.owner === id) {
         b.state = 'idle';
@@ -148,11 +429,39 @@ export class Match {
     this.players.delete(id);
   }
 
+  // Hands a held slot back to its player on a new connection. The client gets a fresh init and the
+  // full current state, and numbers its inputs from 1 again, so the sequence starts over here too.
+  public rejoin(id: string, socket: Socket) {
+    const p = this.players.get(id);
+    if (!p || p.socket !== null || this.matchState === 'finished' || this.runtime.now() > p.rejoinUntil) return false;
+
+    this.bots.remove(id);
+    p.socket = socket;
+    p.rejoinUntil = 0;
+    p.inputBuffer = [];
+    p.lastInputSeq = 0;
+    p.ping = createPingState();
+    p.ackedTick = null;
+    p.ackedEventSeq = this.eventSeq; // The fresh state already reflects everything before now
+    p.blocking = false;
+    this.bindSocket(id, socket, true);
+    socket.emit('snapshot', encodeSnapshot(this.buildSnapshot([]), null));
+    console.log(`Player ${id} rejoined match ${this.id}.`);
+    return true;
+  }
+
   private tick() {
-    const now = Date.now();
+    const now = this.runtime.now();
     const dt = TICK_DT; // Fixed time step
     this.tickCount++;
 
+    // Nothing moves any more, but the final events go out again until every client has them
+    if (this.matchState === 'finished') {
+      if (this.tickCount % 2 === 0 && this.eventLog.length > 0) this.broadcastSnapshot();
+      this.sendSpectatorFrames(now);
+      return;
+    }
+
     // State Machine
     if (this.matchState === 'warmup') {
       this.countdown -= dt;
@@ -164,13 +473,26 @@ export class Match {
     } else if (this.matchState === 'playing') {
       this.matchTime -= dt;
       if (this.matchTime <= 0) {
-        this.matchState = 'finished';
-        this.events.push({ type: 'win', data: { winner: 'draw' }, timestamp: Date.now() }); // TODO: Determine winner
-        this.stop();
+        this.matchTime = 0;
+        this.finish(this.decideOnTime(), 'time');
       }
     }
 
-    // 1. Process Inputs
+    if (now - this.lastPingAt >= PING_INTERVAL_MS) {
+      this.lastPingAt = now;
+      this.players.forEach(p => {
+        if (p.socket) p.socket.emit('ping', nextPing(p.ping, now));
+      });
+      this.spectators.forEach(s => s.socket.emit('ping', nextPing(s.ping, now)));
+    }
+
+    // 1. Process Inputs (bots decide first, from the same state everyone sees)
+    if (this.bots.size > 0) {
+      this.bots.update(dt, this.playerSnapshots(), this.ballSnapshots()).forEach(({ id, input }) => {
+        this.players.get(id)?.inputBuffer.push(input);
+      });
+    }
+
     this.players.forEach(p => {
       // Process all pending inputs
       while (p.inputBuffer.length > 0) {
@@ -179,79 +501,75 @@ export class Match {
         
         if (p.state !== 'alive') continue;
 
-        // Movement Logic (Server Authoritative)
-        const speed = input.sprint && p.stamina > 0 ? 15 : 8;
-        const moveDir = new THREE.Vector3(input.move.x, 0, input.move.z).normalize();
-        
-        // Apply Velocity
-        p.vel.x = moveDir.x * speed;
-        p.vel.z = moveDir.z * speed;
-        
-        // Apply Position
-        p.pos.add(p.vel.clone().multiplyScalar(dt));
-        
-        // Clamp Position (Arena Bounds)
-        const limit = 30; // Arena Size / 2
-        p.pos.x = Math.max(-limit, Math.min(limit, p.pos.x));
-        p.pos.z = Math.max(-limit, Math.min(limit, p.pos.z));
+        // Movement Logic (Server Authoritative, same step the client predicts with)
+        stepMovement(p, input, p.team, dt, this.rules);
+        if (this.rules.lineFault && this.matchState === 'playing' && crossedCenterLine(p.pos.z, p.team, this.rules.centerLine)) {
+          this.pushEvent({ type: 'foul', data: { playerId: p.id, kind: 'line' } });
+          this.eliminate(p, 'foul');
+          continue;
+        }
         
         // Rotation
         p.rot = Math.atan2(input.aim.x, input.aim.z);
 
+        // Blocking needs a ball in hand and drains stamina; running dry drops the ball
+        p.blocking = input.block && p.holding !== null && p.stamina > 0;
+        if (p.blocking) {
+          useStamina(p, this.rules.blockStaminaDrain * dt);
+          if (p.stamina <= 0) {
+            p.blocking = false;
+            this.dropBall(p);
+          }
+        }
+
+        // Charging is timed here too, and drains stamina, so a throw can't claim more than was held for
+        if (p.holding === null || input.throw.charge <= 0) {
+          p.charge = 0;
+        } else if (!input.throw.active && p.stamina > 0) {
+          p.charge = Math.min(this.rules.maxCharge, p.charge + dt);
+          useStamina(p, this.rules.chargeStaminaDrain * dt);
+        }
+
         // Actions
         if (input.throw.active && p.holding !== null) {
-          this.throwBall(p, input.throw);
+          let charge = input.throw.charge;
+          if (p.socket) { // Bots are trusted with BotAI's own charge
+            const earned = p.charge + dt;
+            if (charge > earned + CHARGE_TOLERANCE) this.flagInput(p, 'overcharge');
+            charge = Math.min(charge, earned);
+          }
+          this.throwBall(p, input.aim, { ...input.throw, charge });
         }
         
         if (input.catch) {
-          this.tryCatch(p);
+          this.startCatch(p);
         }
+      }
 
-        // Stamina
-        if (input.sprint) p.stamina = Math.max(0, p.stamina - 10 * dt);
-        else p.stamina = Math.min(100, p.stamina + 5 * dt);
+      // An open window grabs the first catchable ball; one that runs out empty starts the cooldown
+      if (p.catchCooldown > 0) p.catchCooldown--;
+      if (p.catchWindow > 0 && p.state === 'alive') {
+        this.tryCatch(p);
+        if (p.catchWindow > 0 && --p.catchWindow === 0) p.catchCooldown = CATCH_COOLDOWN_TICKS;
       }
     });
 
     // 2. Physics Simulation (Balls)
     this.balls.forEach(b => {
       if (b.state === 'thrown' || b.state === 'idle') {
-        // Gravity
-        if (b.pos.y > 0.35) b.vel.y -= 15 * dt;
-
-        // Move
-        b.pos.add(b.vel.clone().multiplyScalar(dt));
-
-        // Floor Bounce
-        if (b.pos.y < 0.35) {
-          b.pos.y = 0.35;
-          b.vel.y *= -0.6;
-          b.vel.x *= 0.9; // Friction
-          b.vel.z *= 0.9;
-          
-          if (b.state === 'thrown') {
-            b.state = 'idle';
-            b.owner = null;
-            b.type = 'normal';
-          }
-        }
+        const live = b.state === 'thrown';
+        const step = stepBall(b, dt, live);
 
-        // Wall Bounce
-        const limit = 29;
-        if (Math.abs(b.pos.x) > limit) {
-          b.pos.x = Math.sign(b.pos.x) * limit;
-          b.vel.x *= -0.6;
-          b.state = 'idle';
-        }
-        if (Math.abs(b.pos.z) > limit) {
-          b.pos.z = Math.sign(b.pos.z) * limit;
-          b.vel.z *= -0.6;
-          b.state = 'idle';
+        // Hit Detection (before the bounce kills the throw, so a hit on the last step still counts)
+        if (live && !step.outOfBounds && b.vel.length() > 5) {
+          this.checkHits(b, step.from);
         }
 
-        // Hit Detection
-        if (b.state === 'thrown' && b.vel.length() > 5) {
-          this.checkHits(b);
+        // Anything but a clean flight ends the throw
+        if (b.state === 'thrown' && (step.hitFloor || step.hitWall || step.outOfBounds)) {
+          b.state = 'idle';
+          b.owner = null;
+          b.type = 'normal';
         }
       } else if (b.state === 'held' && b.owner) {
         const p = this.players.get(b.owner);
@@ -264,7 +582,22 @@ export class Match {
       }
     });
 
-    // 3. Store History for Rewind
+    // 3. Ball control rules
+    if (this.matchState === 'playing') {
+      this.enforceHoldLimit();
+      this.updateShotClocks();
+    }
+
+    // 4. Win Condition (Team wiped out)
+    if (this.matchState === 'playing') {
+      const blueAlive = this.countAlive('blue');
+      const redAlive = this.countAlive('red');
+      if (blueAlive === 0 || redAlive === 0) {
+        this.finish(blueAlive > redAlive ? 'blue' : (redAlive > blueAlive ? 'red' : 'draw'), 'elimination');
+      }
+    }
+
+    // 5. Store History for Rewind
     const snapshot = new Map<string, THREE.Vector3>();
     this.players.forEach(p => snapshot.set(p.id, p.pos.clone()));
     this.history.set(this.tickCount, snapshot);
@@ -272,82 +605,147 @@ export class Match {
       this.history.delete(this.tickCount - this.HISTORY_SIZE);
     }
 
-    // 4. Broadcast Snapshot
-    if (this.tickCount % 2 === 0) { // Send every 2nd tick (15Hz)
+    // 6. Broadcast Snapshot
+    if (this.tickCount % 2 === 0 || this.result !== null) { // Send every 2nd tick (15Hz), and the final state immediately
       this.broadcastSnapshot();
     }
+    this.sendSpectatorFrames(now);
   }
 
-  private throwBall(p: ServerPlayer, throwInput: any) {
+  private throwBall(p: ServerPlayer, aim: InputPacket['aim'], throwInput: InputPacket['throw']) {
     const b = this.balls.get(p.holding!);
     if (!b) return;
 
+    const length = Math.sqrt(aim.x * aim.x + aim.y * aim.y + aim.z * aim.z);
+    const dir = length > 0 ? { x: aim.x / length, y: aim.y / length, z: aim.z / length } : { x: Math.sin(p.rot), y: 0, z: Math.cos(p.rot) };
+    const launch = computeThrow(dir, throwInput.charge, throwInput.curve, this.rules);
+
     b.state = 'thrown';
     b.owner = p.id;
-    b.pos.copy(p.pos).add(new THREE.Vector3(0, 1.5, 0)); // Throw height
-    
-    const aimDir = new THREE.Vector3(Math.sin(p.rot), 0, Math.cos(p.rot)).normalize();
-    // Add pitch (y) from input if available, otherwise assume straight
-    // For now, simple forward throw
-    const speed = 25 + (throwInput.charge * 25); // 25 to 50 speed
-    b.vel.copy(aimDir).multiplyScalar(speed);
-    b.vel.y = 2 + (throwInput.charge * 5); // Slight arc
-
-    b.type = Math.abs(throwInput.curve) > 0.5 ? 'curve' : 'normal';
-    b.curveFactor = throwInput.curve;
+    // Released from eye height, in front of the face, like the client's camera
+    b.pos.set(p.pos.x, p.pos.y + EYE_OFFSET, p.pos.z).addScaledVector(new THREE.Vector3(dir.x, dir.y, dir.z), THROW.releaseDistance);
+    b.vel.set(launch.velocity.x, launch.velocity.y, launch.velocity.z);
+    b.type = launch.type;
+    b.curveFactor = launch.curveFactor;
+    b.rewindTicks = p.socket ? rewindTicks(p.ping.rtt ?? 0, p.ping.interpolationDelay) : 0; // Bots see the present
+    b.charge = clampCharge(throwInput.charge, this.rules);
     
+    useStamina(p, throwStaminaCost(throwInput.charge, this.rules));
     p.holding = null;
+    p.blocking = false;
+    p.charge = 0;
+    p.throws++;
+  }
+
+  // Catch button: loose balls in reach are simply picked up, otherwise a catch window opens
+  private startCatch(p: ServerPlayer) {
+    if (p.holding !== null) return;
+
+    // Balls on the other team's side are theirs to pick up
+    let fouled: ServerBall | null = null;
+    for (const b of this.balls.values()) {
+      if (b.state !== 'idle' || p.pos.distanceTo(b.pos) >= PICKUP_RANGE) continue;
+      if (onOpposingSide(b.pos.z, p.team, this.rules.centerLine)) {
+        fouled = b;
+        continue;
+      }
+      this.holdBall(p, b);
+      return;
+    }
+    if (fouled) {
+      this.pushEvent({ type: 'foul', data: { playerId: p.id, kind: 'pickup', ballId: fouled.id } });
+    }
+
+    if (p.catchWindow > 0 || p.catchCooldown > 0) return;
+    p.catchWindow = CATCH_WINDOW_TICKS;
+    this.tryCatch(p);
   }
 
   private tryCatch(p: ServerPlayer) {
-    // Simple catch logic: check balls in front
-    // In a real implementation, we would use rewind here too
-    // But for catching, usually strict server-time check is better to prevent "vacuum" hacks
-    
-    let caught = false;
-    this.balls.forEach(b => {
-      if (caught) return;
-      if (b.state === 'thrown' && b.owner !== p.id) {
-        const dist = p.pos.distanceTo(b.pos);
-        if (dist < 3.0) {
-          // Check angle
-          const toBall = b.pos.clone().sub(p.pos).normalize();
-          const facing = new THREE.Vector3(Math.sin(p.rot), 0, Math.cos(p.rot));
-          if (facing.dot(toBall) > 0.5) {
-            // Success
-            b.state = 'held';
-            b.owner = p.id;
-            b.vel.set(0, 0, 0);
-            p.holding = b.id;
-            caught = true;
-            this.events.push({ type: 'catch', data: { playerId: p.id, ballId: b.id }, timestamp: Date.now() });
-          }
-        }
-      } else if (b.state === 'idle' && p.holding === null) {
-         const dist = p.pos.distanceTo(b.pos);
-         if (dist < 2.0) {
-            b.state = 'held';
-            b.owner = p.id;
-            p.holding = b.id;
-            caught = true;
-         }
+    // No rewind for catches: a strict server-time check keeps "vacuum" catches out
+    for (const b of this.balls.values()) {
+      if (this.canCatch(p, b, p.pos)) {
+        this.catchBall(p, b);
+        return;
       }
-    });
+    }
+  }
+
+  private canCatch(p: ServerPlayer, b: ServerBall, pos: Vec3) {
+    if (p.catchWindow <= 0 || p.holding !== null || p.state !== 'alive') return false;
+    if (b.state !== 'thrown' || b.owner === p.id) return false;
+    const thrower = b.owner ? this.players.get(b.owner) : undefined;
+    if (thrower && thrower.team === p.team) return false;
+
+    const toBall = new THREE.Vector3(b.pos.x - pos.x, b.pos.y - pos.y, b.pos.z - pos.z);
+    if (toBall.length() >= CATCH_RANGE) return false;
+    const facing = new THREE.Vector3(Math.sin(p.rot), 0, Math.cos(p.rot));
+    return facing.dot(toBall.normalize()) > CATCH_FACING;
+  }
+
+  private catchBall(p: ServerPlayer, b: ServerBall) {
+    const thrower = b.owner ? this.players.get(b.owner) : undefined;
+
+    this.holdBall(p, b);
+    b.vel.set(0, 0, 0);
+    b.type = 'normal';
+    p.catches++;
+    p.catchWindow = 0;
+    this.pushEvent({ type: 'catch', data: { playerId: p.id, ballId: b.id, throwerId: thrower?.id ?? null } });
+
+    // Classic rule: the thrower is out and the catcher's team gets its longest-out player back
+    if (this.rules.catchRevives) {
+      if (thrower && thrower.state === 'alive') {
+        this.eliminate(thrower, p.id);
+        p.eliminations++;
+      }
+      this.reviveTeammate(p.team);
+    }
   }
 
-  private checkHits(b: ServerBall) {
+  private checkHits(b: ServerBall, from: Vec3) {
     this.players.forEach(p => {
+      if (b.state !== 'thrown') return; // Already hit or deflected this tick
       if (p.id === b.owner || p.state !== 'alive') return;
 
-      // Hitbox check (Capsule vs Sphere)
-      // Simplified to Sphere vs Sphere for now
-      // Player radius ~0.5, Ball radius ~0.35 -> Threshold ~0.85
-      const dist = p.pos.distanceTo(b.pos);
-      
-      if (dist < 1.0) {
+      // A ball arriving inside an open catch window is caught, not taken to the chest
+      if (this.canCatch(p, b, p.pos)) {
+        this.catchBall(p, b);
+        return;
+      }
+
+      // Test against where the thrower saw this player, not where they are now
+      const rewound = b.rewindTicks > 0 ? rewindPosition(this.history, this.tickCount, b.rewindTicks, p.id) : null;
+      const targetPos = rewound ?? p.pos;
+
+      if (p.blocking) {
+        const facing = { x: Math.sin(p.rot), z: Math.cos(p.rot) };
+        if (shieldCovers(targetPos, facing, from, b.pos)) {
+          const broken = b.charge >= BLOCK.breakCharge;
+          this.pushEvent({ type: 'block', data: { playerId: p.id, ballId: b.id, by: b.owner, broken } });
+          if (!broken) {
+            deflect(b.vel, facing);
+            b.state = 'idle';
+            b.owner = null;
+            b.type = 'normal';
+            return;
+          }
+          // Guard smashed: the throw carries on into the player
+          p.blocking = false;
+        }
+      }
+
+      // Swept Sphere vs Sphere over this tick's flight (player pos is already chest height)
+      const hit = sweptHit(from, b.pos, targetPos, this.rules.hitRadius);
+      if (rewound && hit !== sweptHit(from, b.pos, p.pos, this.rules.hitRadius)) {
+        console.log(`Match ${this.id}: rewind of ${b.rewindTicks.toFixed(1)} ticks turned a ${hit ? 'miss into a hit' : 'hit into a miss'} on ${p.id} (ball ${b.id})`);
+      }
+
+      if (hit) {
         // HIT!
-        p.state = 'out';
-        this.events.push({ type: 'elimination', data: { playerId: p.id, by: b.owner }, timestamp: Date.now() });
+        const thrower = b.owner ? this.players.get(b.owner) : undefined;
+        if (thrower) thrower.eliminations++;
+        this.eliminate(p, b.owner);
         b.state = 'idle';
         b.vel.multiplyScalar(0.2);
         b.vel.y = 5; // Pop up
@@ -355,56 +753,348 @@ export class Match {
     });
   }
 
+  private holdBall(p: ServerPlayer, b: ServerBall) {
+    b.state = 'held';
+    b.owner = p.id;
+    b.heldSince = this.tickCount;
+    b.holdWarned = false;
+    p.holding = b.id;
+  }
+
+  // Holding one ball too long: a warning first, then the ruleset's penalty
+  private enforceHoldLimit() {
+    this.balls.forEach(b => {
+      const p = b.state === 'held' && b.owner ? this.players.get(b.owner) : undefined;
+      if (!p) return;
+
+      const heldFor = (this.tickCount - b.heldSince) * TICK_DT;
+      if (!b.holdWarned && heldFor >= this.rules.holdTimeout - this.rules.holdWarning) {
+        b.holdWarned = true;
+        this.pushEvent({ type: 'holdWarning', data: { playerId: p.id, ballId: b.id, secondsLeft: this.rules.holdTimeout - heldFor } }, p.id);
+      }
+      if (heldFor >= this.rules.holdTimeout) {
+        this.pushEvent({ type: 'foul', data: { playerId: p.id, kind: 'hold', ballId: b.id } });
+        if (this.rules.holdPenalty === 'eliminate') this.eliminate(p, 'foul');
+        else this.dropBall(p);
+      }
+    });
+  }
+
+  // A team sitting on more than half the balls has shotClock seconds to throw, or the balls change sides
+  private updateShotClocks() {
+    if (this.rules.shotClock <= 0) return;
+
+    (['blue', 'red'] as TeamId[]).forEach(team => {
+      const controlled = this.controlledBalls(team);
+      const deadline = this.shotClocks[team];
+
+      if (controlled.length <= this.rules.ballCount / 2) {
+        if (deadline !== null) {
+          this.shotClocks[team] = null;
+          this.pushEvent({ type: 'shotClock', data: { team, state: 'cleared' } });
+        }
+        return;
+      }
+
+      if (deadline === null) {
+        this.shotClocks[team] = this.tickCount + Math.round(this.rules.shotClock * TICK_RATE);
+        this.pushEvent({ type: 'shotClock', data: { team, state: 'started', secondsLeft: this.rules.shotClock } });
+      } else if (this.tickCount >= deadline) {
+        this.shotClocks[team] = null;
+        this.pushEvent({ type: 'foul', data: { team, kind: 'shotClock' } });
+        this.turnOver(controlled);
+      }
+    });
+  }
+
+  // Balls in a team's hands or resting on its side of the line
+  private controlledBalls(team: TeamId) {
+    const opponent: TeamId = team === 'blue' ? 'red' : 'blue';
+    return Array.from(this.balls.values()).filter(b => {
+      if (b.state === 'held') return b.owner !== null && this.players.get(b.owner)?.team === team;
+      return b.state === 'idle' && onOpposingSide(b.pos.z, opponent, this.rules.centerLine);
+    });
+  }
+
+  // Mirrors the balls onto the other half
+  private turnOver(balls: ServerBall[]) {
+    balls.forEach(b => {
+      const holder = b.state === 'held' && b.owner ? this.players.get(b.owner) : undefined;
+      if (holder) this.dropBall(holder);
+      b.state = 'idle';
+      b.owner = null;
+      b.pos.set(b.pos.x, 0.5, -b.pos.z);
+      b.vel.set(0, 0, 0);
+    });
+  }
+
+  private dropBall(p: ServerPlayer) {
+    const b = p.holding !== null ? this.balls.get(p.holding) : undefined;
+    p.holding = null;
+    if (!b) return;
+    b.state = 'idle';
+    b.owner = null;
+    b.vel.set(0, 0, 0);
+  }
+
+  private eliminate(p: ServerPlayer, by: string | null) {
+    p.state = 'out';
+    p.blocking = false;
+    p.catchWindow = 0;
+    p.outAt = this.tickCount;
+    this.dropBall(p);
+    this.pushEvent({ type: 'elimination', data: { playerId: p.id, by } });
+  }
+
+  // Brings back whoever on the team has been out the longest. Slots a bot plays come back too, including one held
+  // for a dropped player; only a socket that is still attached but no longer connected stays out
+  private reviveTeammate(team: TeamId) {
+    const teammate = Array.from(this.players.values())
+      .filter(p => p.team === team && p.state === 'out' && (p.socket === null || p.socket.connected))
+      .sort((a, b) => a.outAt - b.outAt)[0];
+    if (!teammate) return;
+
+    const spawnZ = team === 'blue' ? -20 : 20;
+    teammate.pos.set((this.runtime.random() - 0.5) * 20, 1.05, spawnZ);
+    teammate.vel.set(0, 0, 0);
+    teammate.state = 'alive';
+    teammate.stamina = this.rules.maxStamina;
+    teammate.staminaDelay = 0;
+    teammate.catchCooldown = 0;
+    this.pushEvent({ type: 'respawn', data: { playerId: teammate.id } });
+  }
+
+  private countAlive(team: TeamId) {
+    let count = 0;
+    this.players.forEach(p => {
+      if (p.team === team && p.state === 'alive') count++;
+    });
+    return count;
+  }
+
+  private countEliminations(team: TeamId) {
+    let count = 0;
+    this.players.forEach(p => {
+      if (p.team === team) count += p.eliminations;
+    });
+    return count;
+  }
+
+  // Time expired: more players alive wins, then more eliminations, otherwise draw
+  private decideOnTime(): TeamId | 'draw' {
+    const blueAlive = this.countAlive('blue');
+    const redAlive = this.countAlive('red');
+    if (blueAlive !== redAlive) return blueAlive > redAlive ? 'blue' : 'red';
+
+    const blueElims = this.countEliminations('blue');
+    const redElims = this.countEliminations('red');
+    if (blueElims !== redElims) return blueElims > redElims ? 'blue' : 'red';
+
+    return 'draw';
+  }
+
+  private finish(winner: TeamId | 'draw', reason: MatchResult['reason']) {
+    if (this.matchState === 'finished') return;
+    this.matchState = 'finished';
+
+    this.result = {
+      matchId: this.id,
+      mode: this.mode,
+      winner,
+      reason,
+      duration: this.rules.matchTime - this.matchTime,
+      players: Array.from(this.players.values()).map(p => ({
+        id: p.id,
+        team: p.team,
+        eliminations: p.eliminations,
+        catches: p.catches,
+        throws: p.throws,
+        survived: p.state === 'alive'
+      }))
+    };
+
+    this.pushEvent({ type: 'win', data: this.result });
+    // Keeps ticking so the result can be resent; MatchManager stops finished matches
+    console.log(`Match ${this.id} finished: ${winner} (${reason}).`);
+    if (this.onFinish) this.onFinish(this.result);
+  }
+
+  // Balls line up along the center line, 5 units apart
+  private ballSpawn(id: number) {
+    return new THREE.Vector3((id - (this.rules.ballCount - 1) / 2) * 5, 0.5, 0);
+  }
+
   private respawnAll() {
     this.players.forEach(p => {
       const spawnZ = p.team === 'blue' ? -20 : 20;
-      p.pos.set((Math.random() - 0.5) * 20, 1.05, spawnZ);
+      p.pos.set((this.runtime.random() - 0.5) * 20, 1.05, spawnZ);
       p.vel.set(0, 0, 0);
       p.state = 'alive';
-      p.stamina = 100;
+      p.stamina = this.rules.maxStamina;
+      p.staminaDelay = 0;
+      p.catchWindow = 0;
+      p.catchCooldown = 0;
       p.holding = null;
+      p.outAt = 0;
+      // Warmup is practice; only what happens from here on counts
+      p.eliminations = 0;
+      p.catches = 0;
+      p.throws = 0;
     });
     
+    this.shotClocks = { blue: null, red: null };
+
     // Reset balls
     this.balls.forEach(b => {
       b.state = 'idle';
       b.owner = null;
       b.vel.set(0, 0, 0);
-      b.pos.set((b.id - 2.5) * 5, 0.5, 0);
+      b.pos.copy(this.ballSpawn(b.id));
     });
   }
 
-  private broadcastSnapshot() {
-    const snapshot: WorldSnapshot = {
+  private buildSnapshot(events: GameEvent[]): WorldSnapshot {
+    return {
       tick: this.tickCount,
       time: this.matchTime,
-      timestamp: Date.now(),
+      timestamp: this.runtime.now(),
       matchState: this.matchState,
       countdown: this.countdown,
-      players: Array.from(this.players.values()).map(p => ({
-        id: p.id,
-        team: p.team,
-        pos: { x: p.pos.x, y: p.pos.y, z: p.pos.z },
-        vel: { x: p.vel.x, y: p.vel.y, z: p.vel.z },
-        rot: { y: p.rot },
-        state: p.state,
-        stamina: p.stamina,
-        holding: p.holding,
-        blocking: p.blocking,
-        charge: p.charge
-      })),
-      balls: Array.from(this.balls.values()).map(b => ({
-        id: b.id,
-        pos: { x: b.pos.x, y: b.pos.y, z: b.pos.z },
-        vel: { x: b.vel.x, y: b.vel.y, z: b.vel.z },
-        state: b.state,
-        owner: b.owner,
-        type: b.type
-      })),
-      events: this.events
+      players: this.playerSnapshots(),
+      balls: this.ballSnapshots(),
+      events
     };
+  }
+
+  // to: only this player hears about it
+  private pushEvent(body: GameEventBody, to: string | null = null) {
+    this.eventLog.push({ event: { ...body, seq: ++this.eventSeq, timestamp: this.runtime.now() }, to });
+  }
+
+  // Replays get every event, including ones only sent to a single player
+  private recordFrame(snapshot: WorldSnapshot) {
+    const events = this.eventLog.filter(e => e.event.seq > this.recordedEventSeq).map(e => e.event);
+    this.recordedEventSeq = this.eventSeq;
+    this.replayFrames.push({ ...snapshot, events });
+    if (snapshot.matchState !== 'finished' || !this.result) return;
+
+    // The final state is in; what follows only resends events
+    this.recording = false;
+    if (this.onReplay) {
+      const header: ReplayHeader = {
+        matchId: this.id,
+        mode: this.mode,
+        ruleset: this.rules,
+        recordedAt: this.replayFrames[0].timestamp,
+        players: Array.from(this.players.values()).map(p => ({ id: p.id, team: p.team })),
+        result: this.result
+      };
+      this.onReplay(header, encodeReplay(header, this.replayFrames));
+    }
+    this.replayFrames = [];
+  }
+
+  // Frames are kept whether or not anyone watches yet, so a new spectator starts SPECTATOR_DELAY_MS back
+  private queueSpectatorFrame(snapshot: WorldSnapshot) {
+    const events = this.eventLog
+      .filter(e => e.event.seq > this.spectatorEventSeq && e.to === null)
+      .map(e => e.event);
+    this.spectatorEventSeq = this.eventSeq;
+    this.spectatorFrames.push({ ...snapshot, events });
+    if (snapshot.matchState === 'finished') this.spectatorFeed = false;
+  }
+
+  // Sends every frame that has waited long enough. Spectators don't ack: the stream is in order, so each
+  // frame is a delta against the one before, with a keyframe for newcomers and every KEYFRAME_INTERVAL frames.
+  private sendSpectatorFrames(now: number) {
+    while (this.spectatorFrames.length > 0 && this.spectatorFrames[0].timestamp <= now - SPECTATOR_DELAY_MS) {
+      const frame = this.spectatorFrames.shift()!;
+      const previous = this.lastSpectatorFrame;
+      const keyframe = this.spectatorFrameCount++ % KEYFRAME_INTERVAL === 0;
+      this.lastSpectatorFrame = frame;
+      if (this.spectators.size === 0) continue;
+
+      let delta: Uint8Array | null = null;
+      let full: Uint8Array | null = null;
+      this.spectators.forEach(s => {
+        const upToDate = !keyframe && previous !== null && s.sentTick === previous.tick;
+        if (upToDate) {
+          delta ??= encodeSnapshot(frame, previous);
+        } else {
+          full ??= encodeSnapshot(frame, null);
+        }
+        s.socket.emit('snapshot', upToDate ? delta : full);
+        s.sentTick = frame.tick;
+      });
+    }
+  }
+
+  private broadcastSnapshot() {
+    const snapshot = this.buildSnapshot([]);
+    const keyframe = this.broadcastCount++ % KEYFRAME_INTERVAL === 0;
+
+    // Clients on the same baseline still waiting for the same events share one encoding
+    const encoded = new Map<string, Uint8Array>();
+    this.players.forEach(p => {
+      if (!p.socket) return;
+      // Events it never acked fell off the log; a keyframe brings it back in line with the state instead
+      const oldestLogged = this.eventLog[0]?.event.seq;
+      if (oldestLogged !== undefined && oldestLogged > p.ackedEventSeq + 1) {
+        p.ackedTick = null;
+        p.ackedEventSeq = oldestLogged - 1;
+      }
+      const baseline = !keyframe && p.ackedTick !== null ? this.sentSnapshots.get(p.ackedTick)?.snapshot ?? null : null;
+      const events = this.eventLog
+        .filter(e => e.event.seq > p.ackedEventSeq && (e.to === null || e.to === p.id))
+        .map(e => e.event);
+      const key = `${baseline?.tick ?? 'keyframe'}:${events.map(e => e.seq).join(',')}`;
+      let bytes = encoded.get(key);
+      if (!bytes) {
+        bytes = encodeSnapshot({ ...snapshot, events }, baseline);
+        encoded.set(key, bytes);
+      }
+      p.socket.emit('snapshot', bytes);
+    });
+
+    if (this.recording && this.onReplay) this.recordFrame(snapshot); // Nobody to hand a replay to, nothing to keep
+    if (this.spectatorFeed) this.queueSpectatorFrame(snapshot);
+
+    this.sentSnapshots.set(snapshot.tick, { snapshot, eventSeq: this.eventSeq });
+    this.sentSnapshots.forEach((_, tick) => {
+      if (this.sentSnapshots.size > SNAPSHOT_HISTORY) this.sentSnapshots.delete(tick);
+    });
+
+    // Forget events every connected client has
+    const acked = Array.from(this.players.values()).filter(p => p.socket).map(p => p.ackedEventSeq);
+    const ackedByAll = acked.length > 0 ? Math.min(...acked) : this.eventSeq;
+    this.eventLog = this.eventLog.filter(e => e.event.seq > ackedByAll).slice(-MAX_EVENT_LOG);
+  }
+
+  private playerSnapshots(): PlayerSnapshot[] {
+    return Array.from(this.players.values()).map(p => ({
+      id: p.id,
+      team: p.team,
+      pos: { x: p.pos.x, y: p.pos.y, z: p.pos.z },
+      vel: { x: p.vel.x, y: p.vel.y, z: p.vel.z },
+      rot: { y: p.rot },
+      state: p.state,
+      stamina: p.stamina,
+      staminaDelay: p.staminaDelay,
+      holding: p.holding,
+      blocking: p.blocking,
+      charge: p.charge,
+      lastInputSeq: p.lastInputSeq
+    }));
+  }
 
-    this.players.forEach(p => p.socket.emit('snapshot', snapshot));
-    this.events = []; // Clear events after broadcast
+  private ballSnapshots(): BallSnapshot[] {
+    return Array.from(this.balls.values()).map(b => ({
+      id: b.id,
+      pos: { x: b.pos.x, y: b.pos.y, z: b.pos.z },
+      vel: { x: b.vel.x, y: b.vel.y, z: b.vel.z },
+      state: b.state,
+      owner: b.owner,
+      type: b.type
+    }));
   }
 }
@@ -0,0 +1,144 @@
+import { afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Socket } from 'socket.io';
+import { MatchManager, MatchManagerOptions } from './MatchManager';
+import { PlayerStore } from './PlayerStore';
+import { PartyState, QueueStatus, SessionPacket } from '../src/game/network/protocol';
+
+// Just enough of a socket.io socket for the manager to talk to; `got` keeps everything sent to it
+function fakeSocket(id: string, token?: string) {
+  const handlers: Record<string, (...args: unknown[]) => void> = {};
+  const got: [string, unknown][] = [];
+  const socket = {
+    id,
+    connected: true,
+    data: {} as Record<string, unknown>,
+    handshake: { auth: token ? { token } : {} },
+    on(event: string, handler: (...args: unknown[]) => void) { handlers[event] = handler; },
+    emit(event: string, data?: unknown) { got.push([event, data]); },
+    disconnect() { socket.connected = false; }
+  };
+  const last = <T>(event: string) => got.filter(([e]) => e === event).at(-1)?.[1] as T | undefined;
+  return {
+    socket,
+    got,
+    last,
+    send: (event: string, ...args: unknown[]) => handlers[event](...args),
+    token: () => last<SessionPacket>('session')!.token
+  };
+}
+
+type Client = ReturnType<typeof fakeSocket>;
+
+let manager: MatchManager;
+let count = 0;
+
+function setup(options: MatchManagerOptions = {}) {
+  manager = new MatchManager(new PlayerStore(':memory:'), options);
+}
+
+function connect(token?: string): Client {
+  const client = fakeSocket(`socket_${++count}`, token);
+  manager.handleConnection(client.socket as unknown as Socket);
+  return client;
+}
+
+before(() => {
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'warn', () => {});
+});
+
+// The manager and its matches run on intervals; mocked timers keep them from outliving the test
+beforeEach(() => mock.timers.enable({ apis: ['setInterval', 'Date'], now: 1_000_000 }));
+afterEach(() => mock.timers.reset());
+
+describe('team sizes', () => {
+  it('keeps the defaults for sizes left undefined', () => {
+    setup({ teamSizes: { casual: undefined, ranked: undefined }, botFillAfter: { casual: null } });
+    const a = connect();
+    a.send('joinQueue', 'casual');
+    assert.equal(a.last<QueueStatus>('queueStatus')!.playersNeeded, 2);
+
+    const b = connect();
+    b.send('joinQueue', 'casual');
+    assert.equal(manager.listMatches().length, 1);
+    assert.equal(manager.listMatches()[0].players, 2);
+  });
+});
+
+describe('one seat per account', () => {
+  // Two solo players in a 1v1 casual match
+  function startMatch() {
+    setup({ botFillAfter: { casual: null } });
+    const a = connect();
+    const b = connect();
+    a.send('joinQueue', 'casual');
+    b.send('joinQueue', 'casual');
+    assert.equal(manager.listMatches().length, 1);
+    return { a, b };
+  }
+
+  it('refuses a second queue entry for an account that is searching', () => {
+    setup({ botFillAfter: { casual: null } });
+    const a = connect();
+    a.send('joinQueue', 'casual');
+    const tab = connect(a.token());
+    tab.send('joinQueue', 'casual');
+    assert.equal(tab.last('partyError'), 'Already searching on another connection');
+    assert.equal(manager.listQueues().find(q => q.mode === 'casual')!.players, 1);
+  });
+
+  it('refuses to queue an account that is playing', () => {
+    const { a } = startMatch();
+    const tab = connect(a.token());
+    tab.send('joinQueue', 'casual');
+    assert.equal(tab.last('partyError'), 'Already playing a match');
+  });
+
+  it('lets an account queue again after leaving its match', () => {
+    const { a } = startMatch();
+    a.send('disconnect', 'client namespace disconnect');
+    const back = connect(a.token());
+    back.send('joinQueue', 'casual');
+    assert.equal(back.last('partyError'), undefined);
+    assert.ok(back.last<QueueStatus>('queueStatus'));
+  });
+
+  it('holds a dropped player\'s slot through the rejoin grace', () => {
+    const { a } = startMatch();
+    a.send('disconnect', 'transport close');
+    mock.timers.tick(30_000);
+    const back = connect(a.token());
+    assert.ok(back.last('init'));
+    back.send('joinQueue', 'casual');
+    assert.equal(back.last('partyError'), 'Already playing a match');
+  });
+
+  it('lets an account queue again once its rejoin grace has run out', () => {
+    const { a } = startMatch();
+    a.send('disconnect', 'transport close');
+    mock.timers.tick(61_000);
+    const tab = connect(a.token());
+    assert.equal(tab.last('init'), undefined); // The bot keeps the slot
+    tab.send('joinQueue', 'casual');
+    assert.equal(tab.last('partyError'), undefined);
+    assert.ok(tab.last<QueueStatus>('queueStatus'));
+  });
+});
+
+describe('parties', () => {
+  it('drops a solo search when the player joins a party', () => {
+    setup({ botFillAfter: { ranked: null } });
+    const leader = connect();
+    const friend = connect();
+    friend.send('joinQueue', 'ranked');
+    leader.send('createParty');
+    friend.send('joinParty', leader.last<PartyState>('partyState')!.code);
+    assert.ok(friend.got.some(([event]) => event === 'queueLeft'));
+
+    leader.send('joinQueue', 'ranked');
+    const ranked = manager.listQueues().find(q => q.mode === 'ranked')!;
+    assert.equal(ranked.groups, 1);
+    assert.equal(ranked.players, 2);
+  });
+});
@@ -1,28 +1,207 @@
 import { Match } from './Match';
+import { PlayerStore } from './PlayerStore';
+import { ReplayStore } from './ReplayStore';
+import { QueueEntry, TeamSize, findMatch } from './Matchmaker';
+import { PartyManager } from './PartyManager';
+import { LobbyManager, lobbyRuleset } from './LobbyManager';
 import { Socket } from 'socket.io';
+import { LiveMatchDetails, LiveMatchSummary, LobbySettings, MatchMode, QueueStatus, QueueSummary, ServerHealth, SessionPacket, TeamId, TICK_RATE } from '../src/game/network/protocol';
+import { DEFAULT_RULESET, RULESET_PRESETS, Ruleset } from '../src/game/rules';
+
+type Mode = 'casual' | 'ranked';
+
+export interface MatchManagerOptions {
+  teamSizes?: Partial<Record<Mode, TeamSize>>;
+  botFillAfter?: Partial<Record<Mode, number | null>>; // Seconds in queue before bots fill the match; null never
+  replays?: ReplayStore; // Finished matches are recorded here
+}
+
+const WAIT_HISTORY_SIZE = 20;
+
+// Ranked never fills with bots, a win against them says nothing about rating
+const DEFAULT_BOT_FILL_AFTER: Record<Mode, number | null> = { casual: 30, ranked: null };
+
+// Rules per queue; custom lobbies pick their own
+const MODE_RULESETS: Record<Mode, Ruleset> = {
+  casual: RULESET_PRESETS.Classic,
+  ranked: RULESET_PRESETS.Competitive
+};
 
 export class MatchManager {
   private matches: Map<string, Match> = new Map();
-  private casualQueue: Socket[] = [];
-  private rankedQueue: Socket[] = [];
-  private playerMatchMap: Map<string, string> = new Map(); // PlayerId -> MatchId
+  private queues: Record<Mode, QueueEntry<Socket[]>[]> = { casual: [], ranked: [] }; // Each entry is a solo player or a party
+  private teamSizes: Record<Mode, TeamSize>;
+  private botFillAfter: Record<Mode, number | null>;
+  private recentWaits: Record<Mode, number[]> = { casual: [], ranked: [] }; // Seconds, most recent last
+  private playerMatchMap: Map<string, string> = new Map(); // SocketId -> MatchId
+  private spectatorMatchMap: Map<string, string> = new Map(); // SocketId -> MatchId being watched
+  private droppedSlots: Map<string, { matchId: string; playerId: string }> = new Map(); // AccountId -> slot held for a reconnect
+  private seats: Map<string, { matchId: string; playerId: string }> = new Map(); // AccountId -> slot it was given in a match
+  private connectedSockets = 0;
+  private store: PlayerStore;
+  private replays: ReplayStore | null;
+  private parties: PartyManager;
+  private lobbies: LobbyManager;
+
+  constructor(store: PlayerStore, options: MatchManagerOptions = {}) {
+    this.store = store;
+    this.replays = options.replays ?? null;
+    // Key by key, so a size left undefined (an unset env var) keeps its default
+    this.teamSizes = { casual: options.teamSizes?.casual ?? 1, ranked: options.teamSizes?.ranked ?? 2 };
+    this.botFillAfter = { ...DEFAULT_BOT_FILL_AFTER, ...options.botFillAfter };
+    this.parties = new PartyManager(store);
+    // A party that changes members has to queue again
+    this.parties.onBeforeChange = (party) => this.removeFromQueue(party.leader);
+    this.lobbies = new LobbyManager(store);
+    this.lobbies.onStart = (lobby, teams) => {
+      // Custom games are unrated and not persisted, so this replaces the default handler
+      const match = this.createMatch('custom', teams, lobbyRuleset(lobby.settings));
+      match.onFinish = () => this.lobbies.matchFinished(lobby);
+    };
+
+    // Search windows widen over time, so queues are re-checked even without new joins
+    setInterval(() => {
+      (['casual', 'ranked'] as Mode[]).forEach(mode => {
+        if (this.queues[mode].length === 0) return;
+        this.checkQueue(mode);
+        this.fillWithBots(mode);
+        this.broadcastQueueStatus(mode);
+      });
+    }, 1000);
 
-  constructor() {
     // Clean up finished matches
     setInterval(() => {
       this.matches.forEach((match, id) => {
         if (match.isFinished()) {
+          match.stop();
           this.matches.delete(id);
+          this.spectatorMatchMap.forEach((matchId, socketId) => {
+            if (matchId === id) this.spectatorMatchMap.delete(socketId);
+          });
           console.log(`Match ${id} cleaned up.`);
         }
       });
+      // Slots whose rejoin grace ran out belong to their bots now
+      this.seats.forEach((seat, accountId) => {
+        if (!this.matches.get(seat.matchId)?.holdsSlot(seat.playerId)) this.releaseSlot(accountId);
+      });
+      this.droppedSlots.forEach((slot, accountId) => {
+        if (!this.matches.get(slot.matchId)?.holdsSlot(slot.playerId)) this.releaseSlot(accountId);
+      });
     }, 10000);
   }
 
+  // --- Public API ---
+
+  public listMatches(): LiveMatchSummary[] {
+    return Array.from(this.matches.values()).map(match => match.summary());
+  }
+
+  public getMatch(matchId: string): LiveMatchDetails | null {
+    return this.matches.get(matchId)?.details() ?? null;
+  }
+
+  public listQueues(): QueueSummary[] {
+    const now = Date.now();
+    return (['casual', 'ranked'] as Mode[]).map(mode => {
+      const queue = this.queues[mode];
+      const oldest = queue.reduce<number | null>((min, e) => min === null ? e.joinedAt : Math.min(min, e.joinedAt), null);
+      return {
+        mode,
+        teamSize: this.teamSizes[mode],
+        players: queue.reduce((sum, e) => sum + e.size, 0),
+        groups: queue.length,
+        longestWait: oldest !== null ? (now - oldest) / 1000 : null,
+        averageWait: this.averageWait(mode),
+        botFillAfter: this.botFillAfter[mode]
+      };
+    });
+  }
+
+  // Tick times are pooled over every running match
+  public health(): ServerHealth {
+    const times = Array.from(this.matches.values()).flatMap(match => match.recentTickTimes()).sort((a, b) => a - b);
+    const percentile = (p: number) => times[Math.min(times.length - 1, Math.floor(p * times.length))];
+    const memory = process.memoryUsage();
+    return {
+      uptime: process.uptime(),
+      connectedSockets: this.connectedSockets,
+      matches: this.matches.size,
+      tickBudget: 1000 / TICK_RATE,
+      tickTime: times.length > 0 ? {
+        samples: times.length,
+        p50: percentile(0.5),
+        p95: percentile(0.95),
+        p99: percentile(0.99),
+        max: times[times.length - 1]
+      } : null,
+      memory: { rss: memory.rss, heapUsed: memory.heapUsed, heapTotal: memory.heapTotal }
+    };
+  }
+
   public handleConnection(socket: Socket) {
-    console.log(`Player ${socket.id} connected.`);
+    this.connectedSockets++;
+    // Bind the socket to a persistent account (new accounts get a fresh token)
+    const session: SessionPacket = this.store.authenticate(socket.handshake.auth?.token);
+    socket.data.accountId = session.profile.id;
+    socket.emit('session', session);
+    console.log(`Player ${socket.id} connected as ${session.profile.id}.`);
+    this.rejoinMatch(socket);
+
+    socket.on('getProfile', () => {
+      socket.emit('profile', this.store.getProfile(socket.data.accountId));
+    });
+
+    socket.on('getMatchHistory', () => {
+      socket.emit('matchHistory', this.store.getMatchHistory(socket.data.accountId));
+    });
+
+    socket.on('createParty', () => {
+      this.parties.create(socket);
+    });
+
+    socket.on('joinParty', (code: string) => {
+      const error = this.parties.join(socket, String(code ?? ''));
+      if (error) socket.emit('partyError', error);
+      else this.removeFromQueue(socket); // A solo search would match them a second time
+    });
+
+    socket.on('leaveParty', () => {
+      this.parties.leave(socket);
+    });
+
+    socket.on('createLobby', (settings?: Partial<LobbySettings>) => {
+      this.removeFromQueue(socket);
+      this.lobbies.create(socket, settings ?? {});
+    });
+
+    socket.on('joinLobby', (code: string) => {
+      this.removeFromQueue(socket);
+      const error = this.lobbies.join(socket, String(code ?? ''));
+      if (error) socket.emit('lobbyError', error);
+    });
+
+    socket.on('leaveLobby', () => {
+      this.lobbies.leave(socket);
+    });
+
+    socket.on('lobbySettings', (settings: Partial<LobbySettings>) => {
+      const error = this.lobbies.updateSettings(socket, settings ?? {});
+      if (error) socket.emit('lobbyError', error);
+    });
+
+    socket.on('lobbyTeam', (team: TeamId | null) => {
+      const error = this.lobbies.pickTeam(socket, team);
+      if (error) socket.emit('lobbyError', error);
+    });
+
+    socket.on('startLobby', () => {
+      const error = this.lobbies.start(socket);
+      if (error) socket.emit('lobbyError', error);
+    });
 
-    socket.on('joinQueue', (mode: 'casual' | 'ranked') => {
+    socket.on('joinQueue', (mode: Mode) => {
+      this.lobbies.leave(socket);
       this.addToQueue(socket, mode);
     });
 
@@ -30,66 +209,255 @@ export class MatchManager {
       this.removeFromQueue(socket);
     });
 
-    socket.on('disconnect', () => {
+    socket.on('spectate', (matchId: string) => {
+      const error = this.spectate(socket, String(matchId ?? ''));
+      if (error) socket.emit('spectateError', error);
+    });
+
+    socket.on('stopSpectating', () => {
+      this.stopSpectating(socket);
+    });
+
+    socket.on('disconnect', (reason: string) => {
+      this.connectedSockets--;
       this.removeFromQueue(socket);
+      this.parties.leave(socket);
+      this.lobbies.leave(socket);
+      this.stopSpectating(socket);
       const matchId = this.playerMatchMap.get(socket.id);
       if (matchId) {
         const match = this.matches.get(matchId);
-        if (match) {
-          match.removePlayer(socket.id);
+        // A kicked player was already taken out by the match
+        if (match && !socket.data.kicked) {
+          // Leaving on purpose gives the slot up; a dropped connection may come back to it
+          const playerId = socket.data.playerId ?? socket.id;
+          const canRejoin = reason !== 'client namespace disconnect';
+          match.removePlayer(playerId, canRejoin);
+          if (canRejoin) this.droppedSlots.set(socket.data.accountId, { matchId, playerId });
+          else this.releaseSlot(socket.data.accountId);
+        } else {
+          this.releaseSlot(socket.data.accountId);
         }
         this.playerMatchMap.delete(socket.id);
       }
     });
   }
 
-  private addToQueue(socket: Socket, mode: 'casual' | 'ranked') {
-    // Remove from existing queues first
+  // Puts a reconnecting account back into the match it dropped out of, if the slot is still held
+  private rejoinMatch(socket: Socket) {
+    const slot = this.droppedSlots.get(socket.data.accountId);
+    if (!slot) return;
+    this.droppedSlots.delete(socket.data.accountId);
+
+    const match = this.matches.get(slot.matchId);
+    socket.data.rank = this.store.getProfile(socket.data.accountId)?.rank;
+    if (!match || !match.rejoin(slot.playerId, socket)) {
+      this.releaseSlot(socket.data.accountId); // Too late, a bot has it for good
+      return;
+    }
+    socket.data.playerId = slot.playerId;
+    this.seats.set(socket.data.accountId, slot);
+    this.playerMatchMap.set(socket.id, slot.matchId);
+  }
+
+  private releaseSlot(accountId: string) {
+    this.seats.delete(accountId);
+    this.droppedSlots.delete(accountId);
+  }
+
+  // Watching takes no slot, so any running match can be joined by id, up to its spectator cap
+  private spectate(socket: Socket, matchId: string) {
+    const playing = this.matches.get(this.playerMatchMap.get(socket.id) ?? '');
+    if (playing && playing.getResult() === null) return 'You are playing in a match';
+    const match = this.matches.get(matchId);
+    if (!match) return 'No running match with that id';
+
+    this.stopSpectating(socket);
+    const error = match.addSpectator(socket);
+    if (error) return error;
     this.removeFromQueue(socket);
+    this.lobbies.leave(socket);
+    this.spectatorMatchMap.set(socket.id, matchId);
+    return null;
+  }
+
+  private stopSpectating(socket: Socket) {
+    const matchId = this.spectatorMatchMap.get(socket.id);
+    if (!matchId) return;
+    this.matches.get(matchId)?.removeSpectator(socket.id);
+    this.spectatorMatchMap.delete(socket.id);
+  }
+
+  private addToQueue(socket: Socket, mode: Mode) {
+    const party = this.parties.get(socket);
+    if (party && party.leader !== socket) {
+      socket.emit('partyError', 'Only the party leader can start a search');
+      return;
+    }
+    const members = party ? party.members : [socket];
+    if (members.length > this.teamSizes[mode]) {
+      socket.emit('partyError', `Party is too big for ${this.teamSizes[mode]}v${this.teamSizes[mode]} ${mode}`);
+      return;
+    }
 
-    if (mode === 'casual') {
-      this.casualQueue.push(socket);
-      this.broadcastQueueStatus('casual');
-      this.checkQueue('casual');
-    } else {
-      this.rankedQueue.push(socket);
-      this.broadcastQueueStatus('ranked');
-      this.checkQueue('ranked');
+    const busy = this.accountsBusy(members);
+    if (busy) {
+      socket.emit('partyError', busy);
+      return;
     }
+
+    // Remove from existing queues first
+    this.removeFromQueue(socket, false);
+
+    // A party queues as one entry at its members' average rating
+    const rating = members.reduce((sum, m) => sum + this.store.getRating(m.data.accountId).rating, 0) / members.length;
+    this.queues[mode].push({ item: members, size: members.length, rating, joinedAt: Date.now() });
+    this.checkQueue(mode);
+    this.broadcastQueueStatus(mode);
+  }
+
+  // An account holds one seat at a time; a second tab on the same account can't queue it again
+  private accountsBusy(members: Socket[]) {
+    const accounts = members.map(m => m.data.accountId as string);
+    if (new Set(accounts).size < accounts.length) return 'The party has the same account in it twice';
+
+    const queued = (['casual', 'ranked'] as Mode[]).some(mode => this.queues[mode].some(entry =>
+      entry.item.some(s => !members.includes(s) && accounts.includes(s.data.accountId))
+    ));
+    if (queued) return 'Already searching on another connection';
+
+    // Only while the account still owns its slot; once it left, or its rejoin grace ran out, a bot has it for good
+    const playing = accounts.some(id => {
+      const seat = this.seats.get(id);
+      return seat !== undefined && this.matches.get(seat.matchId)?.holdsSlot(seat.playerId) === true;
+    });
+    if (playing) return 'Already playing a match';
+    return null;
+  }
+
+  // Removes the whole queue entry (solo or party) that contains this socket
+  private removeFromQueue(socket: Socket, notify: boolean = true) {
+    (['casual', 'ranked'] as Mode[]).forEach(mode => {
+      const queue = this.queues[mode];
+      const entry = queue.find(e => e.item.some(s => s.id === socket.id));
+      if (!entry) return;
+      this.queues[mode] = queue.filter(e => e !== entry);
+      if (notify) entry.item.forEach(s => s.emit('queueLeft'));
+      this.broadcastQueueStatus(mode);
+    });
   }
 
-  private removeFromQueue(socket: Socket) {
-    const wasInCasual = this.casualQueue.some(s => s.id === socket.id);
-    const wasInRanked = this.rankedQueue.some(s => s.id === socket.id);
+  private broadcastQueueStatus(mode: Mode) {
+    const now = Date.now();
+    const queue = [...this.queues[mode]].sort((a, b) => a.joinedAt - b.joinedAt);
+    const averageWait = this.averageWait(mode);
 
-    this.casualQueue = this.casualQueue.filter(s => s.id !== socket.id);
-    this.rankedQueue = this.rankedQueue.filter(s => s.id !== socket.id);
+    let position = 1;
+    queue.forEach(entry => {
+      const waited = (now - entry.joinedAt) / 1000;
+      const status: QueueStatus = {
+        mode,
+        position,
+        queueSize: queue.reduce((sum, e) => sum + e.size, 0),
+        playersNeeded: this.teamSizes[mode] * 2,
+        waited,
+        estimatedWait: averageWait !== null ? Math.max(0, averageWait - waited) : null
+      };
+      entry.item.forEach(s => s.emit('queueStatus', status));
+      position += entry.size;
+    });
+  }
+
+  private checkQueue(mode: Mode) {
+    const now = Date.now();
+    const teams = findMatch(this.queues[mode], this.teamSizes[mode], now);
+    if (!teams) return;
 
-    if (wasInCasual) this.broadcastQueueStatus('casual');
-    if (wasInRanked) this.broadcastQueueStatus('ranked');
+    const matched = [...teams.blue, ...teams.red];
+    this.queues[mode] = this.queues[mode].filter(e => !matched.includes(e));
+    matched.forEach(e => this.recordWait(mode, (now - e.joinedAt) / 1000));
+
+    this.createMatch(mode, {
+      blue: teams.blue.flatMap(e => e.item),
+      red: teams.red.flatMap(e => e.item)
+    }, MODE_RULESETS[mode]);
   }
 
-  private broadcastQueueStatus(mode: 'casual' | 'ranked') {
-    const queue = mode === 'casual' ? this.casualQueue : this.rankedQueue;
-    queue.forEach(s => {
-      s.emit('queueStatus', { position: queue.length, mode });
+  // Once the longest wait passes the mode's limit, whoever is queued plays and bots take the empty slots.
+  // Entries join oldest first, each on the emptier team that still has room, so parties stay together.
+  private fillWithBots(mode: Mode) {
+    const limit = this.botFillAfter[mode];
+    if (limit === null) return;
+
+    const now = Date.now();
+    const byWait = [...this.queues[mode]].sort((a, b) => a.joinedAt - b.joinedAt);
+    if (byWait.length === 0 || now - byWait[0].joinedAt < limit * 1000) return;
+
+    const teamSize = this.teamSizes[mode];
+    const teams: Record<TeamId, QueueEntry<Socket[]>[]> = { blue: [], red: [] };
+    const count = (team: TeamId) => teams[team].reduce((sum, e) => sum + e.size, 0);
+    byWait.forEach(entry => {
+      const order: TeamId[] = count('blue') <= count('red') ? ['blue', 'red'] : ['red', 'blue'];
+      const team = order.find(t => count(t) + entry.size <= teamSize);
+      if (team) teams[team].push(entry);
     });
+
+    const matched = [...teams.blue, ...teams.red];
+    this.queues[mode] = this.queues[mode].filter(e => !matched.includes(e));
+    matched.forEach(e => this.recordWait(mode, (now - e.joinedAt) / 1000));
+
+    this.createMatch(mode, {
+      blue: teams.blue.flatMap(e => e.item),
+      red: teams.red.flatMap(e => e.item)
+    }, MODE_RULESETS[mode], { blue: teamSize - count('blue'), red: teamSize - count('red') });
+  }
+
+  private averageWait(mode: Mode) {
+    const history = this.recentWaits[mode];
+    return history.length > 0 ? history.reduce((sum, w) => sum + w, 0) / history.length : null;
   }
 
-  private checkQueue(mode: 'casual' | 'ranked') {
-    const queue = mode === 'casual' ? this.casualQueue : this.rankedQueue;
-    const requiredPlayers = mode === 'casual' ? 2 : 4; // Lower threshold for testing, ideally 4 or 8
+  private recordWait(mode: Mode, seconds: number) {
+    const history = this.recentWaits[mode];
+    history.push(seconds);
+    if (history.length > WAIT_HISTORY_SIZE) history.shift();
+  }
 
-    if (queue.length >= requiredPlayers) {
-      const players = queue.splice(0, requiredPlayers);
-      const matchId = `match_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const match = new Match(matchId, mode, players);
-      
-      this.matches.set(matchId, match);
-      players.forEach(p => this.playerMatchMap.set(p.id, matchId));
-      
-      match.start();
-      console.log(`Started ${mode} match ${matchId} with ${players.length} players.`);
+  private createMatch(mode: MatchMode, teams: { blue: Socket[]; red: Socket[] }, ruleset: Ruleset = DEFAULT_RULESET, bots: Record<TeamId, number> = { blue: 0, red: 0 }) {
+    const players = [...teams.blue, ...teams.red];
+    players.forEach(p => {
+      p.data.rank = this.store.getProfile(p.data.accountId)?.rank;
+      this.stopSpectating(p); // A party member can be pulled in from the stands
+    });
+    const matchId = `match_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const match = new Match(matchId, mode, teams, ruleset);
+    (['blue', 'red'] as TeamId[]).forEach(team => {
+      for (let i = 0; i < bots[team]; i++) match.addBot(team);
+    });
+    if (this.replays) {
+      const replays = this.replays;
+      match.onReplay = (header, data) => replays.save(header, data);
     }
+    const accountIds = new Map<string, string>(players.map(p => [p.id, p.data.accountId]));
+    match.onFinish = (result) => {
+      // This runs inside the match tick; a failed write loses the stats, not the server
+      try {
+        this.store.recordMatch(result, accountIds);
+      } catch (err) {
+        console.error(`Failed to record match ${matchId}:`, err);
+      }
+      players.forEach(p => {
+        if (p.connected) p.emit('profile', this.store.getProfile(p.data.accountId));
+      });
+    };
+
+    this.matches.set(matchId, match);
+    players.forEach(p => this.seats.set(p.data.accountId, { matchId, playerId: p.id }));
+    players.forEach(p => this.playerMatchMap.set(p.id, matchId));
+
+    match.start();
+    const botTotal = bots.blue + bots.red;
+    console.log(`Started ${mode} match ${matchId} (${teams.blue.length + bots.blue}v${teams.red.length + bots.red}${botTotal > 0 ? `, ${botTotal} bots` : ''}).`);
+    return match;
   }
 }
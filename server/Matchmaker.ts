@@ -0,0 +1,89 @@
+export type TeamSize = 1 | 2 | 4;
+
+// One queue unit: a solo player or a party that must stay together
+export interface QueueEntry<T> {
+  item: T;
+  size: number;
+  rating: number; // Average rating of the unit
+  joinedAt: number;
+}
+
+// Allowed rating gap grows the longer someone waits
+const BASE_WINDOW = 100;
+const WINDOW_GROWTH_PER_SEC = 10;
+const MAX_WINDOW = 800;
+
+export function searchWindow(waitMs: number) {
+  return Math.min(MAX_WINDOW, BASE_WINDOW + (waitMs / 1000) * WINDOW_GROWTH_PER_SEC);
+}
+
+// Picks a group of entries around the longest-waiting anchor that all fit each other's search window
+// and can be split into two full teams. Returns null if no such group exists yet.
+export function findMatch<T>(entries: QueueEntry<T>[], teamSize: TeamSize, now: number): { blue: QueueEntry<T>[]; red: QueueEntry<T>[] } | null {
+  const required = teamSize * 2;
+  if (entries.reduce((sum, e) => sum + e.size, 0) < required) return null;
+
+  const byWait = [...entries].sort((a, b) => a.joinedAt - b.joinedAt);
+
+  for (const anchor of byWait) {
+    if (anchor.size > teamSize) continue;
+
+    const window = searchWindow(now - anchor.joinedAt);
+    const candidates = entries
+      .filter(e => e !== anchor && e.size <= teamSize)
+      .filter(e => {
+        const gap = Math.abs(e.rating - anchor.rating);
+        return gap <= window && gap <= searchWindow(now - e.joinedAt);
+      })
+      .sort((a, b) => Math.abs(a.rating - anchor.rating) - Math.abs(b.rating - anchor.rating));
+
+    const group = [anchor];
+    let players = anchor.size;
+    for (const candidate of candidates) {
+      if (players === required) break;
+      if (players + candidate.size > required) continue;
+      group.push(candidate);
+      players += candidate.size;
+    }
+
+    if (players === required) {
+      const teams = balanceTeams(group, teamSize);
+      if (teams) return teams;
+    }
+  }
+
+  return null;
+}
+
+// Splits the group into two teams of teamSize players with the smallest difference in total rating.
+// Returns null if the unit sizes cannot fill both teams exactly.
+export function balanceTeams<T>(group: QueueEntry<T>[], teamSize: number): { blue: QueueEntry<T>[]; red: QueueEntry<T>[] } | null {
+  const total = group.reduce((sum, e) => sum + e.rating * e.size, 0);
+  let bestMask = -1;
+  let bestDiff = Infinity;
+
+  // At most 8 units, so trying every split is cheap. Fixing the first entry on blue skips mirrored splits.
+  for (let mask = 1; mask < (1 << group.length); mask += 2) {
+    let players = 0;
+    let blueTotal = 0;
+    group.forEach((e, i) => {
+      if (mask & (1 << i)) {
+        players += e.size;
+        blueTotal += e.rating * e.size;
+      }
+    });
+    if (players !== teamSize) continue;
+
+    const diff = Math.abs(total - 2 * blueTotal);
+    if (diff < bestDiff) {
+      bestDiff = diff;
+      bestMask = mask;
+    }
+  }
+
+  if (bestMask < 0) return null;
+  return {
+    blue: group.filter((_, i) => bestMask & (1 << i)),
+    red: group.filter((_, i) => !(bestMask & (1 << i)))
+  };
+}
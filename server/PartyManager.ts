@@ -0,0 +1,86 @@
+import { Socket } from 'socket.io';
+import { PlayerStore } from './PlayerStore';
+import { generateCode } from './codes';
+import { PartyState } from '../src/game/network/protocol';
+
+export const MAX_PARTY_SIZE = 4;
+
+export interface Party {
+  code: string;
+  leader: Socket;
+  members: Socket[];
+}
+
+export class PartyManager {
+  private parties: Map<string, Party> = new Map(); // Code -> Party
+  private memberships: Map<string, Party> = new Map(); // SocketId -> Party
+  private store: PlayerStore;
+
+  // Called before a party's membership changes, so queued parties can be pulled out
+  public onBeforeChange: ((party: Party) => void) | null = null;
+
+  constructor(store: PlayerStore) {
+    this.store = store;
+  }
+
+  public get(socket: Socket) {
+    return this.memberships.get(socket.id) ?? null;
+  }
+
+  public create(socket: Socket) {
+    this.leave(socket);
+
+    let code = generateCode();
+    while (this.parties.has(code)) code = generateCode();
+
+    const party: Party = { code, leader: socket, members: [socket] };
+    this.parties.set(code, party);
+    this.memberships.set(socket.id, party);
+    this.broadcastState(party);
+    return party;
+  }
+
+  // Returns an error message, or null on success
+  public join(socket: Socket, code: string): string | null {
+    const party = this.parties.get(code.trim().toUpperCase());
+    if (!party) return 'Party not found';
+    if (party.members.includes(socket)) return null;
+    if (party.members.length >= MAX_PARTY_SIZE) return 'Party is full';
+
+    this.leave(socket);
+    if (this.onBeforeChange) this.onBeforeChange(party);
+    party.members.push(socket);
+    this.memberships.set(socket.id, party);
+    this.broadcastState(party);
+    return null;
+  }
+
+  public leave(socket: Socket) {
+    const party = this.memberships.get(socket.id);
+    if (!party) return;
+
+    if (this.onBeforeChange) this.onBeforeChange(party);
+    party.members = party.members.filter(m => m !== socket);
+    this.memberships.delete(socket.id);
+    socket.emit('partyState', null);
+
+    if (party.members.length === 0) {
+      this.parties.delete(party.code);
+      return;
+    }
+    if (party.leader === socket) party.leader = party.members[0];
+    this.broadcastState(party);
+  }
+
+  private broadcastState(party: Party) {
+    const state: PartyState = {
+      code: party.code,
+      leaderId: party.leader.id,
+      members: party.members.map(m => {
+        const profile = this.store.getProfile(m.data.accountId);
+        return { id: m.id, username: profile?.username ?? 'Player', rank: profile?.rank ?? 'Unranked' };
+      })
+    };
+    party.members.forEach(m => m.emit('partyState', state));
+  }
+}
@@ -0,0 +1,240 @@
+import Database from 'better-sqlite3';
+import { randomUUID } from 'crypto';
+import { MatchResult, PlayerProfile } from '../src/game/network/protocol';
+import { INITIAL_RATING, PLACEMENT_GAMES, applyDecay, computeRatingChanges, rankLabel } from './Rating';
+
+interface PlayerRow {
+  id: string;
+  token: string;
+  username: string;
+  level: number;
+  xp: number;
+  next_xp: number;
+  rank: string;
+  coins: number;
+  gems: number;
+  rating: number;
+  ranked_games: number;
+  last_ranked_at: number | null;
+  rating_decayed_until: number | null;
+}
+
+// Rewards per finished match
+const XP_WIN = 50;
+const XP_LOSS = 20;
+const COINS_WIN = 100;
+const COINS_LOSS = 30;
+
+export class PlayerStore {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.migrate();
+  }
+
+  private migrate() {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS players (
+        id TEXT PRIMARY KEY,
+        token TEXT NOT NULL UNIQUE,
+        username TEXT NOT NULL,
+        level INTEGER NOT NULL DEFAULT 1,
+        xp INTEGER NOT NULL DEFAULT 0,
+        next_xp INTEGER NOT NULL DEFAULT 100,
+        rank TEXT NOT NULL DEFAULT 'Bronze I',
+        coins INTEGER NOT NULL DEFAULT 0,
+        gems INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL,
+        last_seen INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS matches (
+        id TEXT PRIMARY KEY,
+        mode TEXT NOT NULL,
+        winner TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        duration REAL NOT NULL,
+        finished_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS match_participants (
+        match_id TEXT NOT NULL REFERENCES matches(id),
+        player_id TEXT NOT NULL REFERENCES players(id),
+        team TEXT NOT NULL,
+        won INTEGER NOT NULL,
+        survived INTEGER NOT NULL,
+        eliminations INTEGER NOT NULL,
+        catches INTEGER NOT NULL,
+        throws INTEGER NOT NULL,
+        xp_gained INTEGER NOT NULL,
+        coins_gained INTEGER NOT NULL,
+        PRIMARY KEY (match_id, player_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_participants_player ON match_participants(player_id);
+    `);
+
+    // Columns added after the first schema version
+    this.ensureColumn('players', 'rating', `INTEGER NOT NULL DEFAULT ${INITIAL_RATING}`);
+    this.ensureColumn('players', 'ranked_games', 'INTEGER NOT NULL DEFAULT 0');
+    this.ensureColumn('players', 'last_ranked_at', 'INTEGER');
+    this.ensureColumn('players', 'rating_decayed_until', 'INTEGER');
+    this.ensureColumn('match_participants', 'rating_before', 'INTEGER');
+    this.ensureColumn('match_participants', 'rating_after', 'INTEGER');
+  }
+
+  private ensureColumn(table: string, column: string, definition: string) {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+    if (!columns.some(c => c.name === column)) {
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+
+  // Resolve a session token to a player, creating a fresh account for unknown tokens
+  public authenticate(token: string | undefined): { token: string; profile: PlayerProfile } {
+    const now = Date.now();
+    if (token) {
+      const row = this.db.prepare('SELECT * FROM players WHERE token = ?').get(token) as PlayerRow | undefined;
+      if (row) {
+        const decay = applyDecay(row.rating, row.last_ranked_at, row.rating_decayed_until, now);
+        if (decay.rating !== row.rating) {
+          row.rating = decay.rating;
+          row.rank = rankLabel(row.rating, row.ranked_games);
+          row.rating_decayed_until = decay.decayedUntil;
+          this.db.prepare('UPDATE players SET rating = ?, rank = ?, rating_decayed_until = ? WHERE id = ?')
+            .run(row.rating, row.rank, row.rating_decayed_until, row.id);
+        }
+        this.db.prepare('UPDATE players SET last_seen = ? WHERE id = ?').run(now, row.id);
+        return { token: row.token, profile: this.toProfile(row) };
+      }
+    }
+
+    const id = randomUUID();
+    const newToken = randomUUID();
+    this.db.prepare(
+      'INSERT INTO players (id, token, username, rank, created_at, last_seen) VALUES (?, ?, ?, ?, ?, ?)'
+    ).run(id, newToken, 'Player', rankLabel(INITIAL_RATING, 0), now, now);
+    return { token: newToken, profile: this.getProfile(id)! };
+  }
+
+  public getProfile(playerId: string): PlayerProfile | null {
+    const row = this.db.prepare('SELECT * FROM players WHERE id = ?').get(playerId) as PlayerRow | undefined;
+    return row ? this.toProfile(row) : null;
+  }
+
+  public getMatchHistory(playerId: string, limit: number = 20) {
+    return this.db.prepare(`
+      SELECT m.id, m.mode, m.winner, m.reason, m.duration, m.finished_at AS finishedAt,
+             mp.team, mp.won, mp.survived, mp.eliminations, mp.catches, mp.throws, mp.xp_gained AS xpGained,
+             mp.rating_before AS ratingBefore, mp.rating_after AS ratingAfter
+      FROM match_participants mp
+      JOIN matches m ON m.id = mp.match_id
+      WHERE mp.player_id = ?
+      ORDER BY m.finished_at DESC
+      LIMIT ?
+    `).all(playerId, limit);
+  }
+
+  public getRating(playerId: string) {
+    const row = this.db.prepare('SELECT rating, ranked_games FROM players WHERE id = ?').get(playerId) as
+      Pick<PlayerRow, 'rating' | 'ranked_games'> | undefined;
+    return row ? { rating: row.rating, rankedGames: row.ranked_games } : { rating: INITIAL_RATING, rankedGames: 0 };
+  }
+
+  // Store a finished match and grant rewards. accountIds maps in-match ids (socket ids) to player ids.
+  public recordMatch(result: MatchResult, accountIds: Map<string, string>) {
+    const insertMatch = this.db.prepare(
+      'INSERT INTO matches (id, mode, winner, reason, duration, finished_at) VALUES (?, ?, ?, ?, ?, ?)'
+    );
+    const insertParticipant = this.db.prepare(`
+      INSERT INTO match_participants
+        (match_id, player_id, team, won, survived, eliminations, catches, throws, xp_gained, coins_gained,
+         rating_before, rating_after)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const selectPlayer = this.db.prepare('SELECT * FROM players WHERE id = ?');
+    const updatePlayer = this.db.prepare(
+      'UPDATE players SET level = ?, xp = ?, next_xp = ?, coins = ? WHERE id = ?'
+    );
+    const updateRating = this.db.prepare(
+      'UPDATE players SET rating = ?, ranked_games = ?, rank = ?, last_ranked_at = ? WHERE id = ?'
+    );
+
+    this.db.transaction(() => {
+      const now = Date.now();
+      insertMatch.run(result.matchId, result.mode, result.winner, result.reason, result.duration, now);
+
+      const rows = new Map<string, PlayerRow>();
+      result.players.forEach(stats => {
+        const playerId = accountIds.get(stats.id);
+        const row = playerId ? selectPlayer.get(playerId) as PlayerRow | undefined : undefined;
+        if (row) rows.set(stats.id, row);
+      });
+
+      // Only ranked matches move ratings
+      const ratings = result.mode === 'ranked'
+        ? computeRatingChanges(result.players.filter(p => rows.has(p.id)).map(p => ({
+            id: p.id,
+            team: p.team,
+            rating: rows.get(p.id)!.rating,
+            rankedGames: rows.get(p.id)!.ranked_games
+          })), result.winner)
+        : new Map<string, number>();
+
+      result.players.forEach(stats => {
+        const row = rows.get(stats.id);
+        if (!row) return;
+        const playerId = row.id;
+
+        const won = result.winner === stats.team;
+        const xpGain = won ? XP_WIN : XP_LOSS;
+        const coinGain = won ? COINS_WIN : COINS_LOSS;
+
+        let xp = row.xp + xpGain;
+        let level = row.level;
+        let nextXp = row.next_xp;
+        if (xp >= nextXp) {
+          xp -= nextXp;
+          level++;
+          nextXp = Math.floor(nextXp * 1.2);
+        }
+
+        updatePlayer.run(level, xp, nextXp, row.coins + coinGain, playerId);
+
+        const newRating = ratings.get(stats.id);
+        if (newRating !== undefined) {
+          const rankedGames = row.ranked_games + 1;
+          updateRating.run(newRating, rankedGames, rankLabel(newRating, rankedGames), now, playerId);
+        }
+
+        insertParticipant.run(
+          result.matchId, playerId, stats.team, won ? 1 : 0, stats.survived ? 1 : 0,
+          stats.eliminations, stats.catches, stats.throws, xpGain, coinGain,
+          newRating !== undefined ? row.rating : null, newRating ?? null
+        );
+      });
+    })();
+  }
+
+  public close() {
+    this.db.close();
+  }
+
+  private toProfile(row: PlayerRow): PlayerProfile {
+    return {
+      id: row.id,
+      username: row.username,
+      level: row.level,
+      xp: row.xp,
+      nextXp: row.next_xp,
+      rank: row.rank,
+      coins: row.coins,
+      gems: row.gems,
+      rating: row.rating,
+      placementGamesLeft: Math.max(0, PLACEMENT_GAMES - row.ranked_games)
+    };
+  }
+}
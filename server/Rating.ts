@@ -0,0 +1,87 @@
+import { TeamId } from '../src/game/network/protocol';
+
+export const INITIAL_RATING = 1000;
+export const PLACEMENT_GAMES = 5;
+
+const K_FACTOR = 24;
+const PLACEMENT_K_FACTOR = 64; // Placement matches move rating fast to find the right bracket
+const RATING_FLOOR = 0;
+
+// Inactivity decay only applies to high tiers
+const DECAY_GRACE_MS = 14 * 24 * 60 * 60 * 1000;
+const DECAY_STEP_MS = 24 * 60 * 60 * 1000;
+const DECAY_PER_STEP = 5;
+const DECAY_FLOOR = 1600;
+
+const TIERS = [
+  { name: 'Bronze', min: 0 },
+  { name: 'Silver', min: 900 },
+  { name: 'Gold', min: 1100 },
+  { name: 'Platinum', min: 1300 },
+  { name: 'Diamond', min: 1500 },
+  { name: 'Champion', min: 1700 }
+];
+const DIVISIONS = ['III', 'II', 'I'];
+
+export interface RatedPlayer {
+  id: string;
+  team: TeamId;
+  rating: number;
+  rankedGames: number;
+}
+
+export function expectedScore(rating: number, opponentRating: number) {
+  return 1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+}
+
+// Team Elo: each side plays as its average rating, every player moves by their own K
+export function computeRatingChanges(players: RatedPlayer[], winner: TeamId | 'draw'): Map<string, number> {
+  const average = (team: TeamId) => {
+    const members = players.filter(p => p.team === team);
+    if (members.length === 0) return INITIAL_RATING;
+    return members.reduce((sum, p) => sum + p.rating, 0) / members.length;
+  };
+
+  const teamRating = { blue: average('blue'), red: average('red') };
+  const updated = new Map<string, number>();
+
+  players.forEach(p => {
+    const opponent: TeamId = p.team === 'blue' ? 'red' : 'blue';
+    const expected = expectedScore(teamRating[p.team], teamRating[opponent]);
+    const score = winner === 'draw' ? 0.5 : (winner === p.team ? 1 : 0);
+    const k = p.rankedGames < PLACEMENT_GAMES ? PLACEMENT_K_FACTOR : K_FACTOR;
+    updated.set(p.id, Math.max(RATING_FLOOR, Math.round(p.rating + k * (score - expected))));
+  });
+
+  return updated;
+}
+
+// Returns the rating after inactivity decay and the timestamp decay has been applied up to
+export function applyDecay(rating: number, lastRankedAt: number | null, decayedUntil: number | null, now: number) {
+  if (lastRankedAt === null || rating <= DECAY_FLOOR) return { rating, decayedUntil };
+
+  const start = Math.max(lastRankedAt + DECAY_GRACE_MS, decayedUntil ?? 0);
+  const steps = Math.floor((now - start) / DECAY_STEP_MS);
+  if (steps <= 0) return { rating, decayedUntil };
+
+  return {
+    rating: Math.max(DECAY_FLOOR, rating - steps * DECAY_PER_STEP),
+    decayedUntil: start + steps * DECAY_STEP_MS
+  };
+}
+
+export function rankLabel(rating: number, rankedGames: number) {
+  if (rankedGames < PLACEMENT_GAMES) return `Unranked (${rankedGames}/${PLACEMENT_GAMES})`;
+
+  let tierIndex = 0;
+  TIERS.forEach((tier, i) => {
+    if (rating >= tier.min) tierIndex = i;
+  });
+  const tier = TIERS[tierIndex];
+  if (tierIndex === TIERS.length - 1) return tier.name;
+
+  // Split the tier evenly into divisions, III being the lowest
+  const span = TIERS[tierIndex + 1].min - tier.min;
+  const division = Math.min(DIVISIONS.length - 1, Math.floor(((rating - tier.min) / span) * DIVISIONS.length));
+  return `${tier.name} ${DIVISIONS[division]}`;
+}
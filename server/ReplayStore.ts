@@ -0,0 +1,73 @@
+import fs from 'fs';
+import path from 'path';
+import { ReplayHeader, ReplaySummary } from '../src/game/network/protocol';
+
+// Oldest replays are deleted past this many
+const MAX_REPLAYS = 200;
+
+// Match ids are generated server-side; anything else is not a replay name
+const REPLAY_ID = /^match_[a-z0-9_]+$/i;
+
+// Replay files on disk, one <matchId>.replay per match with a <matchId>.json summary next to it,
+// so listing never has to open the replays themselves.
+export class ReplayStore {
+  private dir: string;
+  private summaries: ReplaySummary[] = []; // Oldest first
+
+  constructor(dir: string) {
+    this.dir = dir;
+    fs.mkdirSync(dir, { recursive: true });
+    fs.readdirSync(dir)
+      .filter(name => name.endsWith('.json'))
+      .forEach(name => {
+        try {
+          this.summaries.push(JSON.parse(fs.readFileSync(path.join(dir, name), 'utf8')));
+        } catch (err) {
+          console.warn(`Skipping replay summary ${name}:`, err);
+        }
+      });
+    this.summaries.sort((a, b) => a.recordedAt - b.recordedAt);
+  }
+
+  public save(header: ReplayHeader, data: Uint8Array) {
+    if (!REPLAY_ID.test(header.matchId)) return;
+    const summary: ReplaySummary = {
+      matchId: header.matchId,
+      mode: header.mode,
+      recordedAt: header.recordedAt,
+      duration: header.result.duration,
+      winner: header.result.winner,
+      playerCount: header.players.length,
+      size: data.length
+    };
+    try {
+      fs.writeFileSync(this.file(header.matchId), data);
+      fs.writeFileSync(path.join(this.dir, `${header.matchId}.json`), JSON.stringify(summary));
+    } catch (err) {
+      console.error(`Could not save replay of ${header.matchId}:`, err);
+      return;
+    }
+    this.summaries.push(summary);
+
+    while (this.summaries.length > MAX_REPLAYS) {
+      const old = this.summaries.shift()!;
+      fs.rmSync(this.file(old.matchId), { force: true });
+      fs.rmSync(path.join(this.dir, `${old.matchId}.json`), { force: true });
+    }
+  }
+
+  // Newest first
+  public list(limit: number = 50): ReplaySummary[] {
+    return this.summaries.slice(-limit).reverse();
+  }
+
+  // Path of a stored replay, or null if there is none by that id
+  public find(matchId: string): string | null {
+    if (!REPLAY_ID.test(matchId) || !this.summaries.some(s => s.matchId === matchId)) return null;
+    return this.file(matchId);
+  }
+
+  private file(matchId: string) {
+    return path.join(this.dir, `${matchId}.replay`);
+  }
+}
@@ -0,0 +1,127 @@
+import { Match } from './Match';
+import { BotDifficulty } from './BotDriver';
+import { BOT_PERSONALITIES, BotPersonality } from '../src/game/BotAI';
+import { DEFAULT_RULESET, Ruleset } from '../src/game/rules';
+import { Runtime, seededRandom } from '../src/game/runtime';
+import { MatchMode, MatchResult, TeamId, TICK_DT, TICK_RATE } from '../src/game/network/protocol';
+
+// Where the simulated clock starts; any fixed time will do, it only has to be the same every run
+const START_TIME = Date.UTC(2025, 0, 1);
+// A match that somehow outlives its clock is cut off this many seconds late
+const OVERTIME_LIMIT = 10;
+
+export interface SimulatedBot {
+  difficulty: BotDifficulty;
+  personality?: BotPersonality; // Drawn from the seed when left out
+}
+
+export interface SimulationSetup {
+  seed: number;
+  blue: SimulatedBot[];
+  red: SimulatedBot[];
+  ruleset?: Ruleset;
+  mode?: MatchMode;
+}
+
+export interface SimulatedMatch {
+  seed: number;
+  ticks: number;
+  result: MatchResult | null; // Null if the match was cut off
+  bots: { id: string; team: TeamId; difficulty: BotDifficulty; personality: BotPersonality }[];
+}
+
+export interface WinRecord {
+  played: number;
+  won: number;
+  drawn: number;
+  winRate: number; // Share of played matches won
+}
+
+export interface SimulationStats {
+  matches: number;
+  unfinished: number;
+  winners: Record<TeamId | 'draw', number>;
+  reasons: Record<MatchResult['reason'], number>;
+  averageDuration: number; // Seconds of play
+  throwsPerElimination: number;
+  byDifficulty: Partial<Record<BotDifficulty, WinRecord>>;
+  byPersonality: Partial<Record<BotPersonality, WinRecord>>;
+}
+
+// Plays one bot-only match to the end as fast as the CPU allows. The match runs on a clock that moves
+// one tick per step and on dice seeded from setup.seed, so the same setup always plays out the same way.
+export function simulateMatch(setup: SimulationSetup): SimulatedMatch {
+  const rules = setup.ruleset ?? DEFAULT_RULESET;
+  const random = seededRandom(setup.seed);
+  let clock = START_TIME;
+  const runtime: Runtime = { now: () => clock, random };
+
+  const match = new Match(`sim_${setup.seed}`, setup.mode ?? 'custom', { blue: [], red: [] }, rules, runtime);
+  const bots: SimulatedMatch['bots'] = [];
+  (['blue', 'red'] as const).forEach(team => {
+    setup[team].forEach(bot => {
+      const personality = bot.personality ?? BOT_PERSONALITIES[Math.floor(random() * BOT_PERSONALITIES.length)];
+      const id = match.addBot(team, bot.difficulty, personality);
+      bots.push({ id, team, difficulty: bot.difficulty, personality });
+    });
+  });
+
+  const maxTicks = Math.ceil((rules.warmup + rules.matchTime + OVERTIME_LIMIT) * TICK_RATE);
+  let ticks = 0;
+  while (!match.getResult() && ticks < maxTicks) {
+    clock += TICK_DT * 1000;
+    match.step();
+    ticks++;
+  }
+
+  return { seed: setup.seed, ticks, result: match.getResult(), bots };
+}
+
+export function summarize(matches: SimulatedMatch[]): SimulationStats {
+  const stats: SimulationStats = {
+    matches: matches.length,
+    unfinished: 0,
+    winners: { blue: 0, red: 0, draw: 0 },
+    reasons: { elimination: 0, time: 0 },
+    averageDuration: 0,
+    throwsPerElimination: 0,
+    byDifficulty: {},
+    byPersonality: {}
+  };
+
+  let duration = 0;
+  let throws = 0;
+  let eliminations = 0;
+  const record = <K extends string>(records: Partial<Record<K, WinRecord>>, key: K, outcome: TeamId | 'draw', team: TeamId) => {
+    const entry = records[key] ?? (records[key] = { played: 0, won: 0, drawn: 0, winRate: 0 });
+    entry.played++;
+    if (outcome === team) entry.won++;
+    if (outcome === 'draw') entry.drawn++;
+  };
+
+  matches.forEach(({ result, bots }) => {
+    if (!result) {
+      stats.unfinished++;
+      return;
+    }
+    stats.winners[result.winner]++;
+    stats.reasons[result.reason]++;
+    duration += result.duration;
+    result.players.forEach(p => {
+      throws += p.throws;
+      eliminations += p.eliminations;
+    });
+    bots.forEach(bot => {
+      record(stats.byDifficulty, bot.difficulty, result.winner, bot.team);
+      record(stats.byPersonality, bot.personality, result.winner, bot.team);
+    });
+  });
+
+  const finished = stats.matches - stats.unfinished;
+  stats.averageDuration = finished > 0 ? duration / finished : 0;
+  stats.throwsPerElimination = eliminations > 0 ? throws / eliminations : 0;
+  [...Object.values(stats.byDifficulty), ...Object.values(stats.byPersonality)].forEach(entry => {
+    if (entry) entry.winRate = entry.played > 0 ? entry.won / entry.played : 0;
+  });
+  return stats;
+}
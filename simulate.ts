@@ -0,0 +1,70 @@
+// Plays bot-vs-bot matches headless and prints aggregate stats, for tuning numbers with data.
+//   npm run simulate -- --matches 1000 --seed 7 --team-size 2 --ruleset Competitive --difficulties Easy,Hard
+// Every bot gets a difficulty from the list and a personality at random; the seed makes a run repeatable.
+import { BotDifficulty } from "./server/BotDriver";
+import { SimulationSetup, SimulatedMatch, simulateMatch, summarize } from "./server/Simulator";
+import { RULESET_PRESETS, isRulesetPreset } from "./src/game/rules";
+import { seededRandom } from "./src/game/runtime";
+
+const DIFFICULTIES: BotDifficulty[] = ["Easy", "Medium", "Hard", "Insane"];
+
+function option(name: string, fallback: string) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 && index + 1 < process.argv.length ? process.argv[index + 1] : fallback;
+}
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+const matchCount = Number(option("matches", "100"));
+const seed = Number(option("seed", "1"));
+const teamSize = Number(option("team-size", "2"));
+const preset = option("ruleset", "Classic");
+const difficulties = option("difficulties", DIFFICULTIES.join(",")).split(",") as BotDifficulty[];
+
+if (!Number.isInteger(matchCount) || matchCount < 1) fail("--matches must be a positive whole number");
+if (!Number.isInteger(seed)) fail("--seed must be a whole number");
+if (!Number.isInteger(teamSize) || teamSize < 1 || teamSize > 8) fail("--team-size must be between 1 and 8");
+if (!isRulesetPreset(preset)) fail(`Unknown ruleset '${preset}'`);
+if (difficulties.some(d => !DIFFICULTIES.includes(d))) fail(`--difficulties takes a list of ${DIFFICULTIES.join(", ")}`);
+
+// Line-ups draw from their own generator, apart from the dice each match plays with
+const lineups = seededRandom(seed);
+const team = () => Array.from({ length: teamSize }, () => ({
+  difficulty: difficulties[Math.floor(lineups() * difficulties.length)]
+}));
+
+// Matches log as they finish; thousands of those would bury the stats
+const log = console.log;
+console.log = () => {};
+
+const started = Date.now();
+const matches: SimulatedMatch[] = [];
+for (let i = 0; i < matchCount; i++) {
+  const setup: SimulationSetup = { seed: seed * 100003 + i, blue: team(), red: team(), ruleset: RULESET_PRESETS[preset] };
+  matches.push(simulateMatch(setup));
+}
+const elapsed = (Date.now() - started) / 1000;
+console.log = log;
+
+const stats = summarize(matches);
+if (process.argv.includes("--json")) {
+  console.log(JSON.stringify(stats, null, 2));
+} else {
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const table = (records: typeof stats.byDifficulty | typeof stats.byPersonality) => Object.fromEntries(
+    Object.entries(records).map(([key, r]) => [key, { played: r!.played, won: r!.won, drawn: r!.drawn, "win rate": percent(r!.winRate) }])
+  );
+
+  console.log(`\n${stats.matches} matches of ${teamSize}v${teamSize} ${preset} in ${elapsed.toFixed(1)}s`);
+  console.log(`Winners: blue ${stats.winners.blue}, red ${stats.winners.red}, draw ${stats.winners.draw}` + (stats.unfinished > 0 ? `, ${stats.unfinished} cut off` : ""));
+  console.log(`Ended by: elimination ${stats.reasons.elimination}, time ${stats.reasons.time}`);
+  console.log(`Average match length: ${stats.averageDuration.toFixed(1)}s`);
+  console.log(`Throws per elimination: ${stats.throwsPerElimination.toFixed(2)}`);
+  console.log("\nBy difficulty (per bot)");
+  console.table(table(stats.byDifficulty));
+  console.log("By personality (per bot)");
+  console.table(table(stats.byPersonality));
+}
@@ -1,13 +1,16 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { Game } from './game/Game';
+import { Game, ViewerCamera } from './game/Game';
 import nipplejs from 'nipplejs';
-import { Target, Trophy, Heart, Shield, Users, Play, Info, Zap } from 'lucide-react';
+import { Target, Trophy, Heart, Shield, Users, Play, Pause, Info, Zap, Film, Eye } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
+import { ConnectionStats, LobbySettings, LobbyState, PartyState, PlayerProfile, ReplaySummary, TeamId } from './game/network/protocol';
+import { decodeReplay } from './game/network/codec';
+import { DEFAULT_RULESET, RULESET_PRESETS, RulesetPreset } from './game/rules';
 
 export default function App() {
   const containerRef = useRef<HTMLDivElement>(null);
   const gameRef = useRef<Game | null>(null);
-  const [gameState, setGameState] = useState<'menu' | 'lobby' | 'playing'>('menu');
+  const [gameState, setGameState] = useState<'menu' | 'lobby' | 'custom' | 'playing' | 'replays' | 'replay' | 'spectating'>('menu');
   const [isMobile, setIsMobile] = useState(false);
   const joystickRef = useRef<any>(null);
   const lookTouchId = useRef<number | null>(null);
@@ -111,37 +114,54 @@ export default function App() {
     isOut: false,
     isAimingAtEnemy: false,
     winner: null as string | null,
-    stamina: 100,
+    stamina: DEFAULT_RULESET.maxStamina,
+    maxStamina: DEFAULT_RULESET.maxStamina,
     chargeLevel: 0,
+    maxCharge: DEFAULT_RULESET.maxCharge,
     isBlocking: false,
-    timer: 180,
+    holdDeadline: null as number | null,
+    shotClock: null as { team: string; deadline: number } | null,
+    connection: null as ConnectionStats | null, // Online only
+    kicked: null as string | null,
+    replay: null as { time: number; duration: number; paused: boolean; speed: number; camera: ViewerCamera; following: string | null } | null,
+    spectating: null as { matchId: string; delay: number; camera: ViewerCamera; following: string | null } | null,
+    spectateError: null as string | null,
+    spectateEnded: false,
+    matchId: null as string | null, // Online match being played, for others to spectate
+    timer: DEFAULT_RULESET.matchTime,
     bluePlayersLeft: 4,
     redPlayersLeft: 4,
     isLobby: false,
-    lobbyTimer: 120,
+    estimatedWait: null as number | null,
     playersCount: 0,
+    playersNeeded: 2,
     lobbyMode: 'casual' as 'casual' | 'ranked',
-    matchState: 'playing' as 'warmup' | 'playing' | 'finished'
+    matchState: 'playing' as 'warmup' | 'playing' | 'finished',
+    party: null as PartyState | null,
+    partyError: null as string | null,
+    customLobby: null as LobbyState | null,
+    lobbyError: null as string | null
   });
-
-  const [playerProfile, setPlayerProfile] = useState(() => {
-    const saved = localStorage.getItem('polyDodge_profile');
-    if (saved) return JSON.parse(saved);
-    return {
-      username: 'Player',
-      level: 1,
-      xp: 0,
-      nextXp: 100,
-      rank: 'Bronze I',
-      coins: 0,
-      gems: 0
-    };
+  const [partyCode, setPartyCode] = useState('');
+  const [lobbyCode, setLobbyCode] = useState('');
+  const [spectateId, setSpectateId] = useState('');
+  const [replayList, setReplayList] = useState<ReplaySummary[] | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+
+  // Profile is owned by the server; this is only a placeholder until the session arrives
+  const [playerProfile, setPlayerProfile] = useState<PlayerProfile>({
+    id: '',
+    username: 'Player',
+    level: 1,
+    xp: 0,
+    nextXp: 100,
+    rank: 'Unranked',
+    rating: 1000,
+    placementGamesLeft: 5,
+    coins: 0,
+    gems: 0
   });
 
-  useEffect(() => {
-    localStorage.setItem('polyDodge_profile', JSON.stringify(playerProfile));
-  }, [playerProfile]);
-
   const [sensitivity, setSensitivity] = useState(() => {
     const saved = localStorage.getItem('polyDodge_sensitivity');
     return saved ? parseFloat(saved) : 1.0;
@@ -164,43 +184,37 @@ export default function App() {
 
   useEffect(() => {
     hudCallbackRef.current = (data: any) => {
+      if (data.profile) {
+        setPlayerProfile(data.profile);
+        return;
+      }
+
+      if (data.searchCancelled) {
+        if (gameState === 'lobby') setGameState('menu');
+        return;
+      }
+
+      // Party members follow their leader into the queue
+      if (data.isLobby && gameState === 'menu') {
+        setGameState('lobby');
+      }
+
+      if (data.spectating && gameState === 'menu') {
+        setGameState('spectating');
+      }
+
       setHudData(prev => {
         const newData = { ...prev, ...data };
         
-        // Handle state transitions from Game
-        if (newData.isLobby === false && newData.winner === null && gameState === 'lobby') {
+        // Handle state transitions from Game (a reconnect can land straight back in a match from the menu)
+        // and a party leader's search can pull a spectator into one
+        if (newData.isLobby === false && newData.winner === null && (gameState === 'lobby' || gameState === 'custom' || (data.rejoined && gameState === 'menu') || (data.matchId && gameState === 'spectating'))) {
            setGameState('playing');
            if (!isMobile) {
              gameRef.current?.lock();
            }
         }
 
-        // Update stats if winner is declared
-        if (data.winner && !prev.winner) {
-          setPlayerProfile(p => {
-            const won = data.winner === prev.team;
-            const xpGain = won ? 50 : 20;
-            const coinGain = won ? 100 : 30;
-            let newXp = p.xp + xpGain;
-            let newLevel = p.level;
-            let newNextXp = p.nextXp;
-            
-            if (newXp >= p.nextXp) {
-              newXp -= p.nextXp;
-              newLevel++;
-              newNextXp = Math.floor(p.nextXp * 1.2);
-            }
-            
-            return {
-              ...p,
-              xp: newXp,
-              level: newLevel,
-              nextXp: newNextXp,
-              coins: p.coins + coinGain
-            };
-          });
-        }
-
         return newData;
       });
     };
@@ -226,10 +240,17 @@ export default function App() {
           if (e.code === 'ArrowLeft' || e.code === 'KeyA') gameRef.current?.cycleSpectator(-1);
         }
       }
+      if (gameState === 'replay' && e.code === 'Space' && hudData.replay) {
+        gameRef.current?.setReplayPaused(!hudData.replay.paused);
+      }
+      if (gameState === 'spectating' && hudData.spectating?.camera === 'follow') {
+        if (e.code === 'ArrowRight') gameRef.current?.cycleSpectator(1);
+        if (e.code === 'ArrowLeft') gameRef.current?.cycleSpectator(-1);
+      }
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [gameState, showInGameMenu, hudData.isOut]);
+  }, [gameState, showInGameMenu, hudData.isOut, hudData.replay, hudData.spectating]);
 
   useEffect(() => {
     if (containerRef.current && !gameRef.current) {
@@ -256,11 +277,20 @@ export default function App() {
 
   const cancelOnline = () => {
     if (gameRef.current) {
-      gameRef.current.disconnect();
+      gameRef.current.cancelSearch();
       setGameState('menu');
     }
   };
 
+  const leaveCustom = () => {
+    gameRef.current?.leaveLobby();
+    setGameState('menu');
+  };
+
+  const updateLobby = (settings: Partial<LobbySettings>) => {
+    gameRef.current?.updateLobbySettings(settings);
+  };
+
   const startBots = () => {
     if (gameRef.current) {
       gameRef.current.startOffline();
@@ -272,6 +302,60 @@ export default function App() {
     }
   };
 
+  const openReplays = () => {
+    setGameState('replays');
+    setReplayList(null);
+    setReplayError(null);
+    fetch('/api/replays')
+      .then(res => res.json())
+      .then((list: ReplaySummary[]) => setReplayList(list))
+      .catch(() => setReplayError('Could not load replays'));
+  };
+
+  const watchReplay = (matchId: string) => {
+    setReplayError(null);
+    fetch(`/api/replays/${matchId}`)
+      .then(res => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return res.arrayBuffer();
+      })
+      .then(data => {
+        gameRef.current?.startReplay(decodeReplay(data));
+        setGameState('replay');
+      })
+      .catch(() => setReplayError('Could not load that replay'));
+  };
+
+  const exitReplay = () => {
+    gameRef.current?.stopReplay();
+    setHudData(prev => ({ ...prev, replay: null }));
+    openReplays();
+  };
+
+  const watchLive = () => {
+    if (!spectateId.trim()) return;
+    setHudData(prev => ({ ...prev, spectateError: null }));
+    gameRef.current?.spectate(spectateId);
+  };
+
+  const stopWatching = () => {
+    gameRef.current?.stopSpectating();
+    setHudData(prev => ({ ...prev, spectating: null, spectateEnded: false, winner: null }));
+    setGameState('menu');
+  };
+
+  const cameraLabels: Record<ViewerCamera, string> = { follow: 'Follow', free: 'Free Cam', overview: 'Overview' };
+  const cameraHints: Record<ViewerCamera, string> = {
+    follow: 'Click the arena, then drag to orbit · Click to switch player',
+    free: 'Click the arena to look around · WASD to fly · Shift for speed',
+    overview: 'The whole arena from the sideline'
+  };
+
+  const formatClock = (ms: number) => {
+    const seconds = Math.floor(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+  };
+
   return (
     <div className="fixed inset-0 w-screen h-screen bg-black overflow-hidden font-sans text-white select-none">
       <div ref={containerRef} className="absolute inset-0 w-full h-full" />
@@ -318,6 +402,26 @@ export default function App() {
               </motion.div>
             )}
 
+            {/* Kicked Overlay */}
+            {hudData.kicked && (
+              <motion.div 
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                className="absolute inset-0 z-50 bg-black/80 backdrop-blur-md flex items-center justify-center pointer-events-auto"
+              >
+                <div className="text-center">
+                  <h2 className="text-5xl font-black italic tracking-tighter text-red-400">REMOVED FROM MATCH</h2>
+                  <p className="text-white/60 font-bold uppercase tracking-widest mt-4 text-sm">{hudData.kicked}</p>
+                  <button 
+                    onClick={() => window.location.reload()}
+                    className="mt-8 bg-white/10 hover:bg-white/20 border border-white/10 px-8 py-3 rounded-2xl font-bold uppercase tracking-widest transition-colors text-sm"
+                  >
+                    Back to Menu
+                  </button>
+                </div>
+              </motion.div>
+            )}
+
             {/* Hit Flash Overlay */}
             {hudData.isOut && (
               <div className="absolute inset-0 z-40 bg-red-600/10 pointer-events-none" />
@@ -341,6 +445,22 @@ export default function App() {
               </div>
             )}
 
+            {/* Ball Control Warnings */}
+            {(hudData.holdDeadline !== null || hudData.shotClock) && !hudData.isOut && (
+              <div className="absolute top-28 left-1/2 -translate-x-1/2 z-40 flex flex-col items-center gap-2 pointer-events-none">
+                {hudData.holdDeadline !== null && (
+                  <div className="bg-red-600/80 border border-red-300/50 px-4 py-2 rounded-xl text-sm font-bold uppercase tracking-widest text-white animate-pulse">
+                    Throw it! {Math.max(0, Math.ceil((hudData.holdDeadline - Date.now()) / 1000))}s
+                  </div>
+                )}
+                {hudData.shotClock && (
+                  <div className={`bg-black/60 border px-4 py-2 rounded-xl text-sm font-bold uppercase tracking-widest ${hudData.shotClock.team === 'blue' ? 'border-blue-400/50 text-blue-300' : 'border-red-400/50 text-red-300'}`}>
+                    {hudData.shotClock.team} shot clock {Math.max(0, Math.ceil((hudData.shotClock.deadline - Date.now()) / 1000))}s
+                  </div>
+                )}
+              </div>
+            )}
+
             {hudData.isOut && isMobile && (
               <div 
                 className="absolute inset-0 z-20 pointer-events-auto"
@@ -445,7 +565,13 @@ export default function App() {
                     </div>
                   </div>
                 </div>
-                <div className="text-[8px] font-black text-white/20 uppercase tracking-[0.4em]">Arena Match</div>
+                {hudData.connection && hudData.connection.rtt !== null ? (
+                  <div className={`text-[8px] font-mono font-bold uppercase tracking-[0.2em] ${hudData.connection.rtt > 150 || hudData.connection.loss > 0.05 ? 'text-red-400/80' : 'text-white/30'}`}>
+                    {hudData.connection.rtt} ms · {Math.round(hudData.connection.loss * 100)}% loss
+                  </div>
+                ) : (
+                  <div className="text-[8px] font-black text-white/20 uppercase tracking-[0.4em]">Arena Match</div>
+                )}
               </div>
 
               {/* Right: Score */}
@@ -512,13 +638,13 @@ export default function App() {
                 <div className="flex justify-between text-[10px] uppercase tracking-widest font-bold mb-2">
                   <span className="text-white/50">Stamina</span>
                   <span className={hudData.stamina < 20 ? 'text-red-400' : 'text-emerald-400'}>
-                    {Math.round(hudData.stamina)}%
+                    {Math.round((hudData.stamina / hudData.maxStamina) * 100)}%
                   </span>
                 </div>
                 <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
                   <div 
                     className={`h-full transition-all duration-100 ${hudData.stamina < 20 ? 'bg-red-500' : 'bg-emerald-500'}`}
-                    style={{ width: `${hudData.stamina}%` }}
+                    style={{ width: `${(hudData.stamina / hudData.maxStamina) * 100}%` }}
                   />
                 </div>
               </div>
@@ -527,14 +653,14 @@ export default function App() {
               <div className={`w-64 bg-black/60 backdrop-blur-md border border-white/10 p-3 rounded-xl shadow-lg transition-opacity duration-200 ${hudData.chargeLevel > 0 ? 'opacity-100' : 'opacity-0'}`}>
                 <div className="flex justify-between text-[10px] uppercase tracking-widest font-bold mb-2">
                   <span className="text-white/50">Throw Power</span>
-                  <span className={hudData.chargeLevel >= 1.5 ? 'text-red-400 animate-pulse' : 'text-amber-400'}>
-                    {hudData.chargeLevel >= 1.5 ? 'MAX' : `${Math.round((hudData.chargeLevel / 1.5) * 100)}%`}
+                  <span className={hudData.chargeLevel >= hudData.maxCharge ? 'text-red-400 animate-pulse' : 'text-amber-400'}>
+                    {hudData.chargeLevel >= hudData.maxCharge ? 'MAX' : `${Math.round((hudData.chargeLevel / hudData.maxCharge) * 100)}%`}
                   </span>
                 </div>
                 <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
                   <div 
-                    className={`h-full transition-all duration-75 ${hudData.chargeLevel >= 1.5 ? 'bg-red-500 shadow-[0_0_10px_rgba(239,68,68,0.5)]' : 'bg-amber-500'}`}
-                    style={{ width: `${(hudData.chargeLevel / 1.5) * 100}%` }}
+                    className={`h-full transition-all duration-75 ${hudData.chargeLevel >= hudData.maxCharge ? 'bg-red-500 shadow-[0_0_10px_rgba(239,68,68,0.5)]' : 'bg-amber-500'}`}
+                    style={{ width: `${(hudData.chargeLevel / hudData.maxCharge) * 100}%` }}
                   />
                 </div>
               </div>
@@ -563,29 +689,29 @@ export default function App() {
                 {hudData.lobbyMode === 'ranked' ? 'Ranked Match' : 'Casual Match'}
               </h2>
               <p className="text-white/50 text-[10px] md:text-sm uppercase tracking-widest mb-4 md:mb-8">
-                {hudData.lobbyMode === 'ranked' ? 'Waiting for 8 real players' : 'Searching for players'}
+                {hudData.lobbyMode === 'ranked' ? 'Matching players of your skill' : 'Searching for players'}
               </p>
               
               <div className={`bg-white/5 border border-white/10 rounded-2xl ${isMobile ? 'p-4' : 'p-6'} mb-6 md:mb-8`}>
                 <div className="flex justify-between items-center mb-4">
                   <span className="text-[10px] font-bold text-white/40 uppercase tracking-widest">Players Found</span>
-                  <span className={`font-mono font-bold ${hudData.playersCount >= 8 ? 'text-emerald-400' : 'text-white'}`}>
-                    {hudData.playersCount} / 8
+                  <span className={`font-mono font-bold ${hudData.playersCount >= hudData.playersNeeded ? 'text-emerald-400' : 'text-white'}`}>
+                    {hudData.playersCount} / {hudData.playersNeeded}
                   </span>
                 </div>
                 <div className="h-2 bg-white/10 rounded-full overflow-hidden">
                   <motion.div 
                     className={`h-full ${hudData.lobbyMode === 'ranked' ? 'bg-amber-500' : 'bg-emerald-500'}`}
                     initial={{ width: 0 }}
-                    animate={{ width: `${(hudData.playersCount / 8) * 100}%` }}
+                    animate={{ width: `${Math.min(1, hudData.playersCount / hudData.playersNeeded) * 100}%` }}
                   />
                 </div>
                 <div className="mt-6 flex justify-between items-center">
                   <span className="text-[10px] font-bold text-white/40 uppercase tracking-widest">
-                    {hudData.lobbyMode === 'ranked' && hudData.playersCount < 8 ? 'Waiting...' : 'Starting in'}
+                    Estimated Wait
                   </span>
                   <span className="font-mono font-bold text-amber-400">
-                    {hudData.lobbyMode === 'ranked' && hudData.playersCount < 8 ? '--:--' : `${Math.floor(hudData.lobbyTimer / 60)}:${String(hudData.lobbyTimer % 60).padStart(2, '0')}`}
+                    {hudData.estimatedWait === null ? '--:--' : `${Math.floor(hudData.estimatedWait / 60)}:${String(Math.floor(hudData.estimatedWait % 60)).padStart(2, '0')}`}
                   </span>
                 </div>
               </div>
@@ -601,6 +727,344 @@ export default function App() {
         )}
       </AnimatePresence>
 
+      {/* Custom Lobby Overlay */}
+      <AnimatePresence>
+        {gameState === 'custom' && (() => {
+          const lobby = hudData.customLobby;
+          const isHost = !!lobby && lobby.hostId === gameRef.current?.getSocketId();
+          const settingRow = (label: string, control: React.ReactNode) => (
+            <div className="flex justify-between items-center py-1.5">
+              <span className="text-[10px] font-bold text-white/40 uppercase tracking-widest">{label}</span>
+              {control}
+            </div>
+          );
+          const stepper = (value: number, step: number, onChange: (v: number) => void, format: (v: number) => string = String) => (
+            <div className="flex items-center gap-2">
+              {isHost && <button onClick={() => onChange(value - step)} className="w-6 h-6 rounded bg-white/10 hover:bg-white/20 font-bold">-</button>}
+              <span className="font-mono font-bold w-12 text-center">{format(value)}</span>
+              {isHost && <button onClick={() => onChange(value + step)} className="w-6 h-6 rounded bg-white/10 hover:bg-white/20 font-bold">+</button>}
+            </div>
+          );
+
+          return (
+            <motion.div 
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="absolute inset-0 z-[120] flex items-center justify-center bg-black/80 backdrop-blur-xl p-4"
+            >
+              <div className={`w-full ${isMobile ? 'max-w-xs p-4' : 'max-w-lg p-8'}`}>
+                <h2 className={`${isMobile ? 'text-2xl' : 'text-4xl'} font-black uppercase italic tracking-tighter mb-6 text-center`}>
+                  Custom Game
+                </h2>
+
+                {!lobby ? (
+                  <div className="space-y-3">
+                    <button 
+                      onClick={() => gameRef.current?.createLobby()}
+                      className="w-full bg-emerald-500 text-black py-3 rounded-2xl font-black uppercase tracking-widest transition-transform active:scale-95"
+                    >
+                      Create Room
+                    </button>
+                    <div className="flex gap-2">
+                      <input 
+                        value={lobbyCode}
+                        onChange={e => setLobbyCode(e.target.value.toUpperCase())}
+                        placeholder="ROOM CODE"
+                        maxLength={6}
+                        className="flex-1 bg-white/5 border border-white/10 rounded-2xl px-4 font-mono font-bold text-center uppercase focus:outline-none focus:border-emerald-500/50"
+                      />
+                      <button 
+                        onClick={() => lobbyCode && gameRef.current?.joinLobby(lobbyCode)}
+                        className="bg-white/10 hover:bg-white/15 border border-white/10 px-6 py-3 rounded-2xl font-bold uppercase tracking-widest text-sm"
+                      >
+                        Join
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    <div className="flex justify-between items-center bg-white/5 border border-white/10 rounded-2xl p-4">
+                      <span className="text-[10px] font-bold text-white/40 uppercase tracking-widest">Room Code</span>
+                      <span className="font-mono font-black text-2xl text-emerald-400 tracking-widest">{lobby.code}</span>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                      {(['blue', 'red'] as TeamId[]).map(team => (
+                        <button 
+                          key={team}
+                          onClick={() => gameRef.current?.pickLobbyTeam(team)}
+                          className={`text-left bg-white/5 border rounded-2xl p-3 min-h-[96px] transition-colors ${team === 'blue' ? 'border-blue-500/40 hover:bg-blue-500/10' : 'border-red-500/40 hover:bg-red-500/10'}`}
+                        >
+                          <div className={`text-[10px] font-black uppercase tracking-widest mb-2 ${team === 'blue' ? 'text-blue-400' : 'text-red-400'}`}>
+                            {team} ({lobby.players.filter(p => p.team === team).length}/{lobby.settings.teamSize})
+                          </div>
+                          {lobby.players.filter(p => p.team === team).map(p => (
+                            <div key={p.id} className="text-xs font-bold">{p.username}{p.id === lobby.hostId ? ' (Host)' : ''}</div>
+                          ))}
+                        </button>
+                      ))}
+                    </div>
+                    {lobby.players.some(p => p.team === null) && (
+                      <div className="text-[10px] text-white/40 uppercase tracking-widest text-center">
+                        Picking: {lobby.players.filter(p => p.team === null).map(p => p.username).join(', ')}
+                      </div>
+                    )}
+
+                    <div className="bg-white/5 border border-white/10 rounded-2xl px-4 py-2">
+                      {settingRow('Rules', (
+                        <div className="flex gap-1">
+                          {(Object.keys(RULESET_PRESETS) as RulesetPreset[]).map(preset => (
+                            <button 
+                              key={preset}
+                              disabled={!isHost}
+                              onClick={() => updateLobby({ preset })}
+                              className={`px-2 py-0.5 rounded font-bold text-xs uppercase ${lobby.settings.preset === preset ? 'bg-emerald-500 text-black' : 'bg-white/10 text-white/60'}`}
+                            >
+                              {preset}
+                            </button>
+                          ))}
+                        </div>
+                      ))}
+                      {settingRow('Team Size', (
+                        <div className="flex gap-1">
+                          {([1, 2, 4] as const).map(size => (
+                            <button 
+                              key={size}
+                              disabled={!isHost}
+                              onClick={() => updateLobby({ teamSize: size })}
+                              className={`px-2 py-0.5 rounded font-mono font-bold text-xs ${lobby.settings.teamSize === size ? 'bg-emerald-500 text-black' : 'bg-white/10 text-white/60'}`}
+                            >
+                              {size}v{size}
+                            </button>
+                          ))}
+                        </div>
+                      ))}
+                      {settingRow('Match Length', stepper(lobby.settings.matchTime, 30, v => updateLobby({ matchTime: v }), v => `${Math.floor(v / 60)}:${String(v % 60).padStart(2, '0')}`))}
+                      {settingRow('Balls', stepper(lobby.settings.ballCount, 1, v => updateLobby({ ballCount: v })))}
+                      {settingRow('Warmup', stepper(lobby.settings.warmup, 1, v => updateLobby({ warmup: v }), v => `${v}s`))}
+                      {settingRow('Catch Revives', (
+                        <button 
+                          disabled={!isHost}
+                          onClick={() => updateLobby({ catchRevives: !lobby.settings.catchRevives })}
+                          className={`px-3 py-0.5 rounded font-bold text-xs uppercase ${lobby.settings.catchRevives ? 'bg-emerald-500 text-black' : 'bg-white/10 text-white/60'}`}
+                        >
+                          {lobby.settings.catchRevives ? 'On' : 'Off'}
+                        </button>
+                      ))}
+                    </div>
+
+                    {isHost && (
+                      <button 
+                        onClick={() => gameRef.current?.startLobby()}
+                        disabled={lobby.state !== 'open'}
+                        className="w-full bg-amber-500 text-black py-3 rounded-2xl font-black uppercase tracking-widest transition-transform active:scale-95 disabled:opacity-50"
+                      >
+                        Start Match
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                {hudData.lobbyError && (
+                  <div className="text-[10px] text-red-400 font-bold uppercase tracking-widest mt-3 text-center">{hudData.lobbyError}</div>
+                )}
+
+                <button 
+                  onClick={leaveCustom}
+                  className="w-full mt-4 bg-white/5 hover:bg-red-500/20 hover:text-red-400 border border-white/10 hover:border-red-500/30 py-3 rounded-2xl font-bold uppercase tracking-widest transition-all text-sm"
+                >
+                  {lobby ? 'Leave Room' : 'Back'}
+                </button>
+              </div>
+            </motion.div>
+          );
+        })()}
+      </AnimatePresence>
+
+      {/* Replay List */}
+      <AnimatePresence>
+        {gameState === 'replays' && (
+          <motion.div 
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 z-[120] flex items-center justify-center bg-black/80 backdrop-blur-xl p-4"
+          >
+            <div className={`w-full ${isMobile ? 'max-w-xs p-4' : 'max-w-lg p-8'}`}>
+              <h2 className={`${isMobile ? 'text-2xl' : 'text-4xl'} font-black uppercase italic tracking-tighter mb-6 text-center`}>
+                Replays
+              </h2>
+
+              <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+                {replayList === null && !replayError && (
+                  <div className="text-center text-white/40 text-xs font-bold uppercase tracking-widest py-8">Loading...</div>
+                )}
+                {replayList && replayList.length === 0 && (
+                  <div className="text-center text-white/40 text-xs font-bold uppercase tracking-widest py-8">No matches recorded yet</div>
+                )}
+                {replayList?.map(r => (
+                  <div key={r.matchId} className="bg-white/5 border border-white/10 rounded-xl p-3 flex items-center justify-between gap-3">
+                    <div>
+                      <div className="text-sm font-bold">
+                        <span className="uppercase">{r.mode}</span>
+                        <span className="text-white/40"> · {r.playerCount} players · {formatClock(r.duration * 1000)}</span>
+                      </div>
+                      <div className="text-[10px] uppercase tracking-widest text-white/40 font-bold">
+                        {new Date(r.recordedAt).toLocaleString()} · <span className={r.winner === 'blue' ? 'text-blue-400' : r.winner === 'red' ? 'text-red-400' : 'text-white/60'}>{r.winner === 'draw' ? 'Draw' : `${r.winner} won`}</span>
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      <a 
+                        href={`/api/replays/${r.matchId}`}
+                        download
+                        className="bg-white/5 hover:bg-white/10 border border-white/10 px-3 py-2 rounded-lg font-bold text-xs uppercase tracking-widest transition-colors"
+                      >
+                        Save
+                      </a>
+                      <button 
+                        onClick={() => watchReplay(r.matchId)}
+                        className="bg-emerald-500 text-black px-3 py-2 rounded-lg font-black text-xs uppercase tracking-widest transition-transform active:scale-95"
+                      >
+                        Watch
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {replayError && (
+                <div className="text-[10px] text-red-400 font-bold uppercase tracking-widest mt-3 text-center">{replayError}</div>
+              )}
+
+              <button 
+                onClick={() => setGameState('menu')}
+                className="w-full mt-4 bg-white/5 hover:bg-red-500/20 hover:text-red-400 border border-white/10 hover:border-red-500/30 py-3 rounded-2xl font-bold uppercase tracking-widest transition-all text-sm"
+              >
+                Back
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Replay Controls */}
+      {gameState === 'replay' && hudData.replay && (() => {
+        const replay = hudData.replay;
+        return (
+          <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-40 w-full max-w-3xl px-4">
+            <div className="bg-black/70 backdrop-blur-md border border-white/10 rounded-2xl p-3 flex flex-col gap-2">
+              <div className="flex items-center gap-3">
+                <button 
+                  onClick={() => gameRef.current?.setReplayPaused(!replay.paused)}
+                  className="w-9 h-9 rounded-xl bg-emerald-500 text-black flex items-center justify-center"
+                >
+                  {replay.paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                </button>
+                <input 
+                  type="range"
+                  min={0}
+                  max={replay.duration}
+                  step={100}
+                  value={replay.time}
+                  onChange={e => gameRef.current?.seekReplay(Number(e.target.value))}
+                  className="flex-1 accent-emerald-400"
+                />
+                <span className="font-mono text-xs text-white/60 tabular-nums">{formatClock(replay.time)} / {formatClock(replay.duration)}</span>
+              </div>
+              <div className="flex items-center justify-between gap-3 text-[10px] font-bold uppercase tracking-widest">
+                <div className="flex gap-1">
+                  {[0.25, 0.5, 1, 2, 4].map(speed => (
+                    <button 
+                      key={speed}
+                      onClick={() => gameRef.current?.setReplaySpeed(speed)}
+                      className={`px-2 py-1 rounded ${replay.speed === speed ? 'bg-white/20 text-white' : 'bg-white/5 text-white/50 hover:bg-white/10'}`}
+                    >
+                      {speed}x
+                    </button>
+                  ))}
+                </div>
+                <div className="flex items-center gap-1">
+                  {(['follow', 'free', 'overview'] as const).map(camera => (
+                    <button 
+                      key={camera}
+                      onClick={() => gameRef.current?.setViewerCamera(camera)}
+                      className={`px-2 py-1 rounded ${replay.camera === camera ? 'bg-white/20 text-white' : 'bg-white/5 text-white/50 hover:bg-white/10'}`}
+                    >
+                      {cameraLabels[camera]}
+                    </button>
+                  ))}
+                  {replay.camera === 'follow' && (
+                    <>
+                      <button onClick={() => gameRef.current?.cycleSpectator(-1)} className="px-2 py-1 rounded bg-white/5 hover:bg-white/10">Prev</button>
+                      <span className="text-white/60 normal-case tracking-normal font-mono">{replay.following ?? '-'}</span>
+                      <button onClick={() => gameRef.current?.cycleSpectator(1)} className="px-2 py-1 rounded bg-white/5 hover:bg-white/10">Next</button>
+                    </>
+                  )}
+                </div>
+                <button onClick={exitReplay} className="px-3 py-1 rounded bg-red-500/20 text-red-400 hover:bg-red-500/40">Exit</button>
+              </div>
+              <div className="text-[9px] text-white/30 font-bold uppercase tracking-widest text-center">
+                {cameraHints[replay.camera]} · Space to pause
+              </div>
+            </div>
+          </div>
+        );
+      })()}
+
+      {/* Spectator Controls */}
+      {gameState === 'spectating' && hudData.spectating && (() => {
+        const spectating = hudData.spectating;
+        return (
+          <>
+            {hudData.winner && (
+              <div className="absolute top-8 left-1/2 -translate-x-1/2 z-40 text-center pointer-events-none">
+                <h2 className={`text-5xl font-black italic tracking-tighter drop-shadow-2xl ${hudData.winner === 'blue' ? 'text-blue-400' : hudData.winner === 'red' ? 'text-red-400' : 'text-white'}`}>
+                  {hudData.winner === 'draw' ? 'DRAW' : `${hudData.winner.toUpperCase()} TEAM WINS!`}
+                </h2>
+              </div>
+            )}
+            <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-40 w-full max-w-3xl px-4">
+              <div className="bg-black/70 backdrop-blur-md border border-white/10 rounded-2xl p-3 flex flex-col gap-2">
+                <div className="flex items-center justify-between gap-3 text-[10px] font-bold uppercase tracking-widest">
+                  <div className="flex items-center gap-2">
+                    <span className={`px-2 py-1 rounded ${hudData.spectateEnded ? 'bg-white/10 text-white/60' : 'bg-red-500 text-white'}`}>{hudData.spectateEnded ? 'Ended' : 'Live'}</span>
+                    <span className="text-white/40">{spectating.delay / 1000}s delay</span>
+                  </div>
+                  <div className="flex items-center gap-3 font-mono text-sm normal-case tracking-normal">
+                    <span className="text-blue-400">{hudData.bluePlayersLeft}</span>
+                    <span className="text-white/80 tabular-nums">{formatClock(Math.max(0, hudData.timer) * 1000)}</span>
+                    <span className="text-red-400">{hudData.redPlayersLeft}</span>
+                  </div>
+                  <button onClick={stopWatching} className="px-3 py-1 rounded bg-red-500/20 text-red-400 hover:bg-red-500/40">Leave</button>
+                </div>
+                <div className="flex items-center justify-center gap-1 text-[10px] font-bold uppercase tracking-widest">
+                  {(['follow', 'free', 'overview'] as const).map(camera => (
+                    <button 
+                      key={camera}
+                      onClick={() => gameRef.current?.setViewerCamera(camera)}
+                      className={`px-2 py-1 rounded ${spectating.camera === camera ? 'bg-white/20 text-white' : 'bg-white/5 text-white/50 hover:bg-white/10'}`}
+                    >
+                      {cameraLabels[camera]}
+                    </button>
+                  ))}
+                  {spectating.camera === 'follow' && (
+                    <>
+                      <button onClick={() => gameRef.current?.cycleSpectator(-1)} className="px-2 py-1 rounded bg-white/5 hover:bg-white/10">Prev</button>
+                      <span className="text-white/60 normal-case tracking-normal font-mono">{spectating.following ?? '-'}</span>
+                      <button onClick={() => gameRef.current?.cycleSpectator(1)} className="px-2 py-1 rounded bg-white/5 hover:bg-white/10">Next</button>
+                    </>
+                  )}
+                </div>
+                <div className="text-[9px] text-white/30 font-bold uppercase tracking-widest text-center">
+                  {cameraHints[spectating.camera]}{spectating.camera === 'follow' ? ' · Arrow keys to switch player' : ''}
+                </div>
+              </div>
+            </div>
+          </>
+        );
+      })()}
+
       {/* Main Menu */}
       <AnimatePresence>
         {gameState === 'menu' && (
@@ -708,6 +1172,14 @@ export default function App() {
                   Casual Match
                 </button>
 
+                <button 
+                  onClick={() => setGameState('custom')}
+                  className={`w-full bg-white/5 hover:bg-white/10 border border-white/10 px-6 py-3 md:px-8 md:py-4 rounded-2xl font-bold ${isMobile ? 'text-base' : 'text-lg'} flex items-center gap-3 md:gap-4 transition-all active:scale-95`}
+                >
+                  <Target className="w-4 h-4 md:w-5 md:h-5 text-amber-400" />
+                  Custom Game
+                </button>
+
                 <button 
                   onClick={startBots}
                   className={`w-full bg-white/5 hover:bg-white/10 border border-white/10 px-6 py-3 md:px-8 md:py-4 rounded-2xl font-bold ${isMobile ? 'text-base' : 'text-lg'} flex items-center gap-3 md:gap-4 transition-all active:scale-95`}
@@ -715,7 +1187,87 @@ export default function App() {
                   <Play className="w-4 h-4 md:w-5 md:h-5 text-purple-400" />
                   Practice vs Bots
                 </button>
+
+                <button 
+                  onClick={openReplays}
+                  className={`w-full bg-white/5 hover:bg-white/10 border border-white/10 px-6 py-3 md:px-8 md:py-4 rounded-2xl font-bold ${isMobile ? 'text-base' : 'text-lg'} flex items-center gap-3 md:gap-4 transition-all active:scale-95`}
+                >
+                  <Film className="w-4 h-4 md:w-5 md:h-5 text-sky-400" />
+                  Replays
+                </button>
                 
+                <div className="pt-4 border-t border-white/10">
+                  {hudData.party ? (
+                    <div className="bg-white/5 border border-white/10 rounded-xl p-3">
+                      <div className="flex justify-between items-center mb-2">
+                        <span className="text-[10px] font-bold text-white/40 uppercase tracking-widest">Party Code</span>
+                        <span className="font-mono font-bold text-emerald-400 tracking-widest">{hudData.party.code}</span>
+                      </div>
+                      <div className="space-y-1 mb-3">
+                        {hudData.party.members.map(m => (
+                          <div key={m.id} className="flex justify-between text-xs">
+                            <span className="font-bold">{m.username}{m.id === hudData.party!.leaderId ? ' (Leader)' : ''}</span>
+                            <span className="text-white/40 uppercase tracking-widest text-[10px]">{m.rank}</span>
+                          </div>
+                        ))}
+                      </div>
+                      <button 
+                        onClick={() => gameRef.current?.leaveParty()}
+                        className="w-full bg-white/5 hover:bg-red-500/20 hover:text-red-400 border border-white/10 py-2 rounded-lg font-bold text-xs uppercase tracking-widest transition-colors"
+                      >
+                        Leave Party
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <button 
+                        onClick={() => gameRef.current?.createParty()}
+                        className="flex-1 bg-white/5 hover:bg-white/10 border border-white/10 py-3 rounded-xl font-bold text-xs md:text-sm text-white/70 transition-colors"
+                      >
+                        Create Party
+                      </button>
+                      <input 
+                        value={partyCode}
+                        onChange={e => setPartyCode(e.target.value.toUpperCase())}
+                        placeholder="CODE"
+                        maxLength={6}
+                        className="w-20 bg-white/5 border border-white/10 rounded-xl px-2 font-mono font-bold text-center text-sm uppercase focus:outline-none focus:border-emerald-500/50"
+                      />
+                      <button 
+                        onClick={() => partyCode && gameRef.current?.joinParty(partyCode)}
+                        className="bg-white/5 hover:bg-white/10 border border-white/10 px-4 py-3 rounded-xl font-bold text-xs md:text-sm text-white/70 transition-colors"
+                      >
+                        Join
+                      </button>
+                    </div>
+                  )}
+                  {hudData.partyError && (
+                    <div className="text-[10px] text-red-400 font-bold uppercase tracking-widest mt-2 text-center">{hudData.partyError}</div>
+                  )}
+                </div>
+
+                <div className="pt-4 border-t border-white/10">
+                  <div className="flex gap-2">
+                    <input 
+                      value={spectateId}
+                      onChange={e => setSpectateId(e.target.value)}
+                      onKeyDown={e => e.key === 'Enter' && watchLive()}
+                      placeholder="Match ID"
+                      className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-xl px-3 font-mono text-xs focus:outline-none focus:border-sky-500/50"
+                    />
+                    <button 
+                      onClick={watchLive}
+                      className="bg-white/5 hover:bg-white/10 border border-white/10 px-4 py-3 rounded-xl font-bold text-xs md:text-sm text-white/70 transition-colors flex items-center gap-2"
+                    >
+                      <Eye className="w-4 h-4 text-sky-400" />
+                      Watch Live
+                    </button>
+                  </div>
+                  {hudData.spectateError && (
+                    <div className="text-[10px] text-red-400 font-bold uppercase tracking-widest mt-2 text-center">{hudData.spectateError}</div>
+                  )}
+                </div>
+
                 <div className="grid grid-cols-2 gap-3 pt-4 border-t border-white/10">
                   <button 
                     onClick={() => setShowCustomization(true)}
@@ -871,6 +1423,11 @@ export default function App() {
           >
             <div className={`w-full bg-zinc-900 border border-white/10 rounded-3xl ${isMobile ? 'p-6' : 'p-8'} ${isMobile ? 'max-w-xs' : 'max-w-sm'} shadow-2xl`}>
               <h2 className={`${isMobile ? 'text-2xl' : 'text-3xl'} font-black mb-6 md:mb-8 uppercase italic text-center`}>Paused</h2>
+              {hudData.matchId && (
+                <p className="-mt-4 mb-6 text-center text-[10px] text-white/40 font-bold uppercase tracking-widest">
+                  Spectate with <span className="font-mono normal-case tracking-normal text-white/70 select-text">{hudData.matchId}</span>
+                </p>
+              )}
               
               <div className="space-y-3">
                 <button 
@@ -1,5 +1,9 @@
 import * as THREE from 'three';
 import { PlayerData, BallData, ARENA_SIZE } from './constants';
+import { TICK_DT } from './network/protocol';
+import { predictImpact } from './physics/ball';
+import { computeThrow } from './physics/throw';
+import { Ruleset } from './rules';
 
 export interface IGameContext {
     players: Map<string, { data: PlayerData; mesh: THREE.Group }>;
@@ -8,8 +12,14 @@ export interface IGameContext {
     onBallGrabbed: (ballId: number, playerId: string) => void;
     onBallThrown: (ballId: number, position: THREE.Vector3, velocity: THREE.Vector3, playerId: string, type: 'normal' | 'curve' | 'lob', curveFactor: number) => void;
     createTrail: (ballId: number) => void;
+    getRuleset: () => Ruleset;
+    now: () => number; // Milliseconds
+    random: () => number; // In [0, 1)
 }
 
+export type BotPersonality = 'Sniper' | 'Trickster' | 'Defender' | 'Aggressor';
+export const BOT_PERSONALITIES: readonly BotPersonality[] = ['Sniper', 'Trickster', 'Defender', 'Aggressor'];
+
 type BotState = 'IDLE' | 'MOVING_TO_BALL' | 'ATTACKING' | 'DODGING' | 'REPOSITIONING' | 'DEFENDING' | 'SUPPORTING' | 'CLUTCH';
 
 interface PerceptionData {
@@ -28,7 +38,7 @@ export class BotAI {
     
     // Personality & Stats
     private difficulty: 'Easy' | 'Medium' | 'Hard' | 'Insane';
-    private personality: 'Sniper' | 'Trickster' | 'Defender' | 'Aggressor';
+    private personality: BotPersonality;
     private personalityMultipliers = {
         accuracy: 1.0,
         dodgeFreq: 1.0,
@@ -53,7 +63,7 @@ export class BotAI {
     private jitterOffset = new THREE.Vector3();
     private lastJitterTime = 0;
 
-    constructor(id: string, bot: { data: PlayerData; mesh: THREE.Group }, game: IGameContext, difficulty: 'Easy' | 'Medium' | 'Hard' | 'Insane' = 'Medium') {
+    constructor(id: string, bot: { data: PlayerData; mesh: THREE.Group }, game: IGameContext, difficulty: 'Easy' | 'Medium' | 'Hard' | 'Insane' = 'Medium', personality?: BotPersonality) {
         this.id = id;
         this.bot = bot;
         this.game = game;
@@ -69,9 +79,8 @@ export class BotAI {
             isLastAlive: false
         };
 
-        // Assign random personality
-        const personalities = ['Sniper', 'Trickster', 'Defender', 'Aggressor'] as const;
-        this.personality = personalities[Math.floor(Math.random() * personalities.length)];
+        // Random personality unless one is asked for
+        this.personality = personality ?? BOT_PERSONALITIES[Math.floor(game.random() * BOT_PERSONALITIES.length)];
         this.applyPersonality();
     }
 
@@ -99,7 +108,7 @@ export class BotAI {
     }
 
     public update(delta: number) {
-        const now = Date.now();
+        const now = this.game.now();
         if (now - this.lastTickTime > this.tickInterval) {
             this.tick();
             this.lastTickTime = now;
@@ -166,10 +175,11 @@ export class BotAI {
                 const speed = ballVel.length();
                 
                 if (speed > 1) {
-                    const toBot = new THREE.Vector3().subVectors(botPos, ball.mesh.position).normalize();
-                    const ballDir = ballVel.clone().normalize();
-                    const dot = toBot.dot(ballDir);
-                    const isAimedAtMe = dot > 0.85;
+                    // Fly the ball forward with the real physics, so curves and lobs are read correctly
+                    const chest = { x: botPos.x, y: botPos.y + 1.05, z: botPos.z };
+                    const body = { pos: ball.mesh.position, vel: ball.data.velocity, type: ball.data.type, curveFactor: ball.data.curveFactor };
+                    const impact = predictImpact(body, chest, TICK_DT, 2, 2.0); // Wider than a hit: near misses are worth dodging too
+                    const isAimedAtMe = impact !== null;
 
                     // Threat Formula
                     let threatScore = (1 / Math.max(1, dist)) * 2;
@@ -180,7 +190,7 @@ export class BotAI {
                         id,
                         dist,
                         velocity: ballVel,
-                        timeToImpact: dist / speed,
+                        timeToImpact: impact ?? dist / speed,
                         threatScore,
                         isAimedAtMe
                     });
@@ -241,7 +251,7 @@ export class BotAI {
 
         if (threat.threatScore > threshold || threat.isAimedAtMe) {
             this.currentState = 'DEFENDING';
-            const roll = Math.random();
+            const roll = this.game.random();
             const canCatch = this.bot.data.holdingBallId === null;
             
             if (canCatch && threat.timeToImpact < 0.6) {
@@ -291,7 +301,7 @@ export class BotAI {
         this.targetEnemyId = target.id;
         this.currentState = 'ATTACKING';
         const dist = target.dist;
-        const roll = Math.random();
+        const roll = this.game.random();
         if (dist < 15 && roll < 0.3) {
             this.bot.data.chargeLevel = 1.2; 
         } else if (dist < 25) {
@@ -316,8 +326,8 @@ export class BotAI {
         if (this.perception.incomingBalls.length > 0) return false;
         this.currentState = 'REPOSITIONING';
         const zBase = this.bot.data.team === 'blue' ? -18 : 18;
-        const xRand = (Math.random() - 0.5) * (ARENA_SIZE - 10);
-        const zRand = (Math.random() - 0.5) * 5;
+        const xRand = (this.game.random() - 0.5) * (ARENA_SIZE - 10);
+        const zRand = (this.game.random() - 0.5) * 5;
         const newTarget = new THREE.Vector3(xRand, 1.6, zBase + zRand);
         let tooClose = false;
         this.game.players.forEach((p, id) => {
@@ -333,9 +343,9 @@ export class BotAI {
 
     private executeMovement(delta: number) {
         const botPos = this.bot.mesh.position;
-        if (Date.now() - this.lastJitterTime > 1500) {
-            this.jitterOffset.set((Math.random() - 0.5) * 2, 0, (Math.random() - 0.5) * 2);
-            this.lastJitterTime = Date.now();
+        if (this.game.now() - this.lastJitterTime > 1500) {
+            this.jitterOffset.set((this.game.random() - 0.5) * 2, 0, (this.game.random() - 0.5) * 2);
+            this.lastJitterTime = this.game.now();
         }
         if (this.moveTarget) {
             const targetWithJitter = this.moveTarget.clone().add(this.jitterOffset);
@@ -361,7 +371,7 @@ export class BotAI {
         }
         const limit = ARENA_SIZE / 2 - 1.5;
         botPos.x = Math.max(-limit, Math.min(limit, botPos.x));
-        const zLimit = 0.5;
+        const zLimit = this.game.getRuleset().centerLine;
         if (this.bot.data.team === 'blue') {
             botPos.z = Math.max(-limit, Math.min(-zLimit, botPos.z));
         } else {
@@ -385,9 +395,13 @@ export class BotAI {
         if (this.currentState === 'ATTACKING' && this.targetEnemyId) {
             const target = this.game.players.get(this.targetEnemyId);
             if (target && this.bot.data.holdingBallId !== null) {
-                this.bot.data.chargeLevel += delta * this.personalityMultipliers.throwFreq;
-                const chargeThreshold = 0.6 + Math.random() * 0.8;
-                if (this.bot.data.chargeLevel > chargeThreshold) {
+                const rules = this.game.getRuleset();
+                this.bot.data.chargeLevel = Math.min(rules.maxCharge, this.bot.data.chargeLevel + delta * this.personalityMultipliers.throwFreq);
+                const chargeThreshold = Math.min(rules.maxCharge, 0.6 + this.game.random() * 0.8);
+                // Let it go before the hold timer runs out, charged or not
+                const ball = this.game.balls.get(this.bot.data.holdingBallId);
+                const heldFor = ball ? (this.game.now() - ball.data.lastInteractionTime) / 1000 : 0;
+                if (this.bot.data.chargeLevel >= chargeThreshold || heldFor > rules.holdTimeout - 2) {
                     this.performThrow(target.mesh.position);
                 }
             }
@@ -398,23 +412,18 @@ export class BotAI {
         if (this.bot.data.holdingBallId === null) return;
         const botPos = this.bot.mesh.position;
         const dir = new THREE.Vector3().subVectors(targetPos, botPos).normalize();
-        dir.y += 0.15;
         const acc = this.personalityMultipliers.accuracy;
         const spread = (1 - acc) * 0.15;
-        dir.x += (Math.random() - 0.5) * spread;
-        dir.y += (Math.random() - 0.5) * spread;
-        dir.z += (Math.random() - 0.5) * spread;
+        dir.x += (this.game.random() - 0.5) * spread;
+        dir.y += (this.game.random() - 0.5) * spread;
+        dir.z += (this.game.random() - 0.5) * spread;
         dir.normalize();
-        const power = 25 + (this.bot.data.chargeLevel * 15);
-        const velocity = dir.multiplyScalar(power);
+        // Same launch as a player's throw, so offline bots follow the ruleset like the server's do
+        const curve = this.game.random() < this.personalityMultipliers.curveChance ? (this.game.random() < 0.5 ? -1 : 1) : 0;
+        const launch = computeThrow(dir, this.bot.data.chargeLevel, curve, this.game.getRuleset());
+        const velocity = new THREE.Vector3(launch.velocity.x, launch.velocity.y, launch.velocity.z);
         const spawnPos = botPos.clone().add(new THREE.Vector3(0, 1, 0));
-        let type: 'normal' | 'curve' = 'normal';
-        let curveFactor = 0;
-        if (Math.random() < this.personalityMultipliers.curveChance) {
-            type = 'curve';
-            curveFactor = (Math.random() - 0.5) * 5;
-        }
-        this.game.onBallThrown(this.bot.data.holdingBallId, spawnPos, velocity, this.id, type, curveFactor);
+        this.game.onBallThrown(this.bot.data.holdingBallId, spawnPos, velocity, this.id, launch.type, launch.curveFactor);
         this.game.createTrail(this.bot.data.holdingBallId);
         this.bot.data.holdingBallId = null;
         this.bot.data.chargeLevel = 0;
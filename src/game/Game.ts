@@ -1,12 +1,23 @@
 import * as THREE from 'three';
 import { PointerLockControls } from 'three/examples/jsm/controls/PointerLockControls.js';
-import { PlayerData, BallData, createLowPolyArena, createPlayerMesh, createBallMesh, ARENA_SIZE } from './constants';
+import { PlayerData, BallData, createLowPolyArena, createPlayerMesh, createBallMesh } from './constants';
 import { BotAI, IGameContext } from './BotAI';
 import { NetworkManager } from './network/NetworkManager';
-import { WorldSnapshot } from './network/protocol';
+import { WorldSnapshot, PlayerSnapshot, GameEvent, LobbySettings, Replay, TeamId, InputPacket, TICK_DT } from './network/protocol';
+import { MovementBody, MovementInput, crossedCenterLine, stepMovement, useStamina } from './physics/movement';
+import { stepBall, sweptHit } from './physics/ball';
+import { THROW, computeThrow, throwStaminaCost } from './physics/throw';
+import { DEFAULT_RULESET, Ruleset } from './rules';
+import { runFixedSteps } from './runtime';
 
 import { sounds } from './SoundManager';
 
+const FREE_CAMERA_SPEED = 15; // Free camera, doubled with sprint
+const REPLAY_HUD_INTERVAL = 100; // ms between replay and spectator HUD updates
+const OVERVIEW_POSITION = new THREE.Vector3(-28, 30, 0); // Off the sideline, both halves in view
+
+export type ViewerCamera = 'free' | 'follow' | 'overview';
+
 export class Game {
   private scene: THREE.Scene;
   private camera: THREE.PerspectiveCamera;
@@ -19,6 +30,7 @@ export class Game {
   
   private myId: string | null = null;
   private spectatingId: string | null = null;
+  private outOrder: string[] = []; // Offline: eliminated players, longest out first, for catch revives
   private spectateOrbit = new THREE.Vector2(0, 0.5); // x: rotation, y: pitch
   private spectateDistance = 8;
   private moveForward = false;
@@ -28,7 +40,6 @@ export class Game {
   private curveLeft = false;
   private curveRight = false;
   private velocity = new THREE.Vector3();
-  private direction = new THREE.Vector3();
   private canPickUp = false;
   private fpBall: THREE.Mesh | null = null;
 
@@ -37,15 +48,14 @@ export class Game {
   private isMobile = false;
   
   // Competitive Mechanics
-  private stamina = 100;
-  private maxStamina = 100;
+  private body: MovementBody; // Local player; the camera follows body.pos
   private isSprinting = false;
   private isBlocking = false;
   private chargeLevel = 0;
   private isCharging = false;
-  private lastStaminaUseTime = 0;
   private localPlayerMesh: THREE.Group | null = null;
-  private roundTime = 180;
+  private ruleset: Ruleset = DEFAULT_RULESET;
+  private roundTime = DEFAULT_RULESET.matchTime;
   private lastTimeUpdate = 0;
   private gameActive = false;
   
@@ -67,6 +77,30 @@ export class Game {
   private trailGeometry: THREE.SphereGeometry | null = null;
   private lastHeartbeatTime = 0;
 
+  // Client-side prediction (online)
+  private pendingInputs: InputPacket[] = []; // Sent but not yet acknowledged by a snapshot
+  private predictionAccumulator = 0;
+  private prevBodyPos = { x: 0, z: 0 }; // Body position one tick ago, for render smoothing
+  private ballAccumulator = 0;
+  private pendingCatch = false;
+  private pendingThrow: { aim: { x: number; y: number; z: number }; charge: number; curve: number } | null = null;
+  private holdDeadline: number | null = null; // When the held ball must be gone, once the hold warning is up
+
+  // Replay viewer: recorded snapshots go through applyInterpolatedState on a clock the viewer controls
+  private replay: {
+    snapshots: WorldSnapshot[];
+    time: number; // ms since the first snapshot
+    duration: number;
+    speed: number;
+    paused: boolean;
+    playedFrame: number; // Events up to this snapshot have been played
+    camera: ViewerCamera;
+    hudUpdatedAt: number;
+  } | null = null;
+
+  // Watching a live match without a slot in it; the server streams it behind real time
+  private spectator: { matchId: string; camera: ViewerCamera; delay: number; hudUpdatedAt: number } | null = null;
+
   constructor(container: HTMLElement, onUpdateHUD: (data: any) => void) {
     this.onUpdateHUD = onUpdateHUD;
     this.scene = new THREE.Scene();
@@ -75,6 +109,7 @@ export class Game {
 
     this.camera = new THREE.PerspectiveCamera(75, window.innerWidth / window.innerHeight, 0.1, 1000);
     this.camera.position.y = 1.6; // Match bot height
+    this.body = { pos: { x: 0, z: 0 }, vel: this.velocity, stamina: 100, staminaDelay: 0 };
 
     this.renderer = new THREE.WebGLRenderer({ antialias: true });
     this.renderer.setSize(window.innerWidth, window.innerHeight);
@@ -172,8 +207,9 @@ export class Game {
 
   public cycleSpectator(direction: number) {
     const myTeam = this.players.get(this.myId!)?.data.team;
+    // Replays and spectators can follow anyone still in
     const teammates = Array.from(this.players.entries())
-      .filter(([id, p]) => id !== this.myId && p.data.team === myTeam && !p.data.isOut);
+      .filter(([id, p]) => id !== this.myId && (this.viewerCamera() !== null || p.data.team === myTeam) && !p.data.isOut);
     
     if (teammates.length === 0) return;
 
@@ -286,13 +322,19 @@ export class Game {
     // Orbit camera movement when spectating
     document.addEventListener('mousemove', (event: MouseEvent) => {
       const myPlayer = this.myId ? this.players.get(this.myId) : null;
-      if (myPlayer && myPlayer.data.isOut) {
+      if ((myPlayer && myPlayer.data.isOut) || this.viewerCamera() === 'follow') {
         this.spectateOrbit.x -= event.movementX * 0.005 * this.sensitivity;
         this.spectateOrbit.y = Math.max(0.1, Math.min(Math.PI / 2 - 0.1, this.spectateOrbit.y + event.movementY * 0.005 * this.sensitivity));
       }
     });
 
     document.addEventListener('mousedown', (e) => {
+      const viewer = this.viewerCamera();
+      if (viewer) {
+        if (viewer === 'follow' && this.controls.isLocked) this.cycleSpectator(e.button === 2 ? -1 : 1);
+        return;
+      }
+
       const myPlayer = this.myId ? this.players.get(this.myId) : null;
       if (myPlayer && myPlayer.data.isOut) {
         if (e.button === 0) this.cycleSpectator(1);
@@ -324,7 +366,7 @@ export class Game {
     if (!myPlayer || myPlayer.isOut) return;
 
     if (myPlayer.holdingBallId !== null) {
-      if (this.stamina > 10) {
+      if (this.body.stamina > 10) {
         this.isCharging = true;
         this.chargeLevel = 0;
         sounds.playCharge(0); // Start charge sound
@@ -332,6 +374,8 @@ export class Game {
         // Not enough stamina to charge, just throw light
         this.throwBall(myPlayer.holdingBallId, 0);
       }
+    } else if (this.isOnline) {
+      this.pendingCatch = true; // The server picks up or opens a catch window on the next tick
     } else {
       this.tryGrabBall();
     }
@@ -380,26 +424,13 @@ export class Game {
     const direction = new THREE.Vector3();
     this.camera.getWorldDirection(direction);
     
-    // Determine Throw Type
-    let type: 'normal' | 'curve' | 'lob' = 'normal';
-    let curveFactor = 0;
-
-    // Lob: Looking up
-    if (direction.y > 0.4) {
-      type = 'lob';
-    } 
-    // Curve: Using Q/E
-    else if (this.curveLeft) {
-      type = 'curve';
-      curveFactor = -2; // Stronger Curve Left
-    } else if (this.curveRight) {
-      type = 'curve';
-      curveFactor = 2; // Stronger Curve Right
-    }
+    // Curve: Using Q/E. Lobs (looking up) are decided from the aim in computeThrow
+    const curve = this.curveLeft ? -1 : (this.curveRight ? 1 : 0);
+    const isLob = direction.y > THROW.lobPitch;
 
     // Aim Assist (Soft Magnetism)
     let bestTarget = null;
-    if (type !== 'lob') {
+    if (!isLob) {
       let maxDot = 0.96; // Tighter aim assist (Skill based)
       this.players.forEach((p, id) => {
         if (id !== this.myId && p.data.team !== (this.players.get(this.myId!)?.data.team) && p.mesh.visible && !p.data.isOut) {
@@ -432,42 +463,22 @@ export class Game {
        finalDir.normalize();
     }
     
-    // Fix: Add a slight upward tilt to normal throws so they don't immediately hit the floor
-    if (type === 'normal' || type === 'curve') {
-      finalDir.y += 0.15;
-      finalDir.normalize();
-    }
-
-    // Power Calculation (Charge affects speed only)
-    let power = 20 + (charge * 30); // Range 20 to 50
-    if (type === 'lob') power *= 0.7; 
-
-    const velocity = finalDir.clone().multiplyScalar(power);
-    
-    // Adjust velocity for Lob
-    if (type === 'lob') {
-      velocity.y += 20; 
-    }
-
-    const position = this.camera.position.clone().add(direction.clone().multiplyScalar(0.5));
+    // Type, power curve and pitch are shared with the server
+    const launch = computeThrow(finalDir, charge, curve, this.ruleset);
+    const velocity = new THREE.Vector3(launch.velocity.x, launch.velocity.y, launch.velocity.z);
+    const position = this.camera.position.clone().add(direction.clone().multiplyScalar(THROW.releaseDistance));
 
     // Stamina cost
-    this.stamina = Math.max(0, this.stamina - (10 + charge * 20));
-    this.lastStaminaUseTime = Date.now();
+    useStamina(this.body, throwStaminaCost(charge, this.ruleset));
     
     if (this.isOnline) {
-      // NetworkManager handles input sending in animate loop based on state
-      // But for "trigger" events like throw start, we might want to send immediately or set a flag
-      // Actually, we send input state every frame. 
-      // The "throw" action in InputPacket has "active: boolean".
-      // We set isCharging = false in handleMouseUp, so we need to ensure the "release" frame is sent.
-      // But since we send inputs continuously, the server sees "active: true" then "active: false".
-      // We don't need to do anything here for network, just local prediction.
-      
+      // The release goes out with the next input tick; the server launches from the same aim and charge
+      this.pendingThrow = { aim: { x: finalDir.x, y: finalDir.y, z: finalDir.z }, charge, curve };
+
       // Predict locally
-      this.onBallThrown(ballId, position, velocity, this.myId!, type, curveFactor);
+      this.onBallThrown(ballId, position, velocity, this.myId!, launch.type, launch.curveFactor);
     } else {
-      this.onBallThrown(ballId, position, velocity, 'local', type, curveFactor);
+      this.onBallThrown(ballId, position, velocity, 'local', launch.type, launch.curveFactor);
     }
     
     sounds.playThrow();
@@ -477,14 +488,85 @@ export class Game {
   private snapshots: any[] = [];
 
   public connect(mode: 'casual' | 'ranked' = 'casual') {
+    this.enterOnline();
+    this.network.joinQueue(mode);
+  }
+
+  private enterOnline() {
+    if (this.isOnline) return;
     this.warmup();
     this.isOnline = true;
     this.gameActive = true;
-    this.network.joinQueue(mode);
+  }
+
+  public cancelSearch() {
+    if (this.network.party) {
+      // Keep the connection so the party stays together
+      this.network.leaveQueue();
+      this.isOnline = false;
+      this.gameActive = false;
+    } else {
+      this.disconnect();
+    }
+  }
+
+  public createParty() {
+    this.network.createParty();
+  }
+
+  public joinParty(code: string) {
+    this.network.joinParty(code);
+  }
+
+  public leaveParty() {
+    this.network.leaveParty();
+  }
+
+  public getSocketId() {
+    return this.network.getSocketId();
+  }
+
+  public createLobby() {
+    this.network.createLobby();
+  }
+
+  public joinLobby(code: string) {
+    this.network.joinLobby(code);
+  }
+
+  public leaveLobby() {
+    this.network.leaveLobby();
+  }
+
+  public updateLobbySettings(settings: Partial<LobbySettings>) {
+    this.network.updateLobbySettings(settings);
+  }
+
+  public pickLobbyTeam(team: TeamId | null) {
+    this.network.pickLobbyTeam(team);
+  }
+
+  public startLobby() {
+    this.network.startLobby();
+  }
+
+  public spectate(matchId: string) {
+    this.network.spectate(matchId.trim());
+  }
+
+  public stopSpectating() {
+    if (!this.spectator) return;
+    this.network.stopSpectating();
+    this.spectator = null;
+    this.isOnline = false;
+    this.gameActive = false;
+    this.clearMatch();
+    document.exitPointerLock();
   }
 
   public disconnect() {
     this.isOnline = false;
+    this.spectator = null;
     this.gameActive = false;
     this.snapshots = [];
     this.network.disconnect();
@@ -500,9 +582,15 @@ export class Game {
 
   private setupNetworkListeners() {
     this.network.onInit = (data) => {
+      this.enterOnline();
+      this.spectator = null;
       this.myId = data.playerId;
+      this.spectatingId = null;
+      this.pendingInputs = [];
+      this.predictionAccumulator = 0;
+      this.ruleset = data.ruleset;
       // Match found! Hide lobby overlay and start game
-      this.onUpdateHUD({ winner: null, isLobby: false });
+      this.onUpdateHUD({ winner: null, isLobby: false, rejoined: data.rejoined, matchId: data.matchId, spectating: null, shotClock: null, isOut: false, rank: data.rank, maxCharge: data.ruleset.maxCharge, maxStamina: data.ruleset.maxStamina });
       
       // Clear existing
       this.players.forEach(p => this.scene.remove(p.mesh));
@@ -513,24 +601,104 @@ export class Game {
     };
 
     this.network.onSnapshot = (snapshot) => {
+      this.reconcile(snapshot);
       this.onUpdateHUD({ 
         timer: snapshot.matchState === 'warmup' ? snapshot.countdown : snapshot.time,
         matchState: snapshot.matchState
       });
     };
 
+    this.network.onStats = (connection) => {
+      if (this.isOnline) this.onUpdateHUD({ connection });
+    };
+
+    this.network.onSpectate = (data) => {
+      this.enterOnline();
+      this.replay = null;
+      this.myId = null;
+      this.spectatingId = null;
+      this.ruleset = data.ruleset;
+      this.spectator = { matchId: data.matchId, camera: 'overview', delay: data.delay, hudUpdatedAt: 0 };
+      this.clearMatch();
+      if (this.fpBall) this.fpBall.visible = false;
+      this.onUpdateHUD({ winner: null, isLobby: false, spectateError: null, spectateEnded: false, shotClock: null, isOut: false, holding: false, maxCharge: data.ruleset.maxCharge, maxStamina: data.ruleset.maxStamina });
+    };
+
+    this.network.onSpectateError = (message) => {
+      this.onUpdateHUD({ spectateError: message });
+    };
+
+    // The match was cleaned up; whatever was on screen stays until the viewer leaves
+    this.network.onSpectateEnded = () => {
+      if (this.spectator) this.onUpdateHUD({ spectateEnded: true });
+    };
+
+    this.network.onKicked = (reason) => {
+      this.isOnline = false;
+      this.gameActive = false;
+      document.exitPointerLock();
+      this.onUpdateHUD({ kicked: reason });
+    };
+
     this.network.onEvent = (event) => {
       if (event.type === 'elimination') {
         this.onPlayerOut(event.data.playerId, 'hit');
       } else if (event.type === 'catch') {
         this.onBallGrabbed(event.data.ballId, event.data.playerId);
+      } else if (event.type === 'respawn') {
+        this.onPlayerRespawn(event.data.playerId);
+      } else if (event.type === 'block') {
+        sounds.playBlock(event.data.broken);
+      } else if (event.type === 'foul' && 'playerId' in event.data && event.data.playerId === this.myId) {
+        sounds.playWhistle();
+      } else if (event.type === 'holdWarning' && event.data.playerId === this.myId) {
+        this.holdDeadline = Date.now() + event.data.secondsLeft * 1000;
+      } else if (event.type === 'shotClock') {
+        const clock = event.data;
+        this.onUpdateHUD({ shotClock: clock.state === 'started' ? { team: clock.team, deadline: Date.now() + clock.secondsLeft * 1000 } : null });
       }
+      if (event.type === 'foul' && event.data.kind === 'shotClock') this.onUpdateHUD({ shotClock: null });
+      if (event.type === 'win') {
+        this.gameActive = false;
+        this.onUpdateHUD({ winner: event.data.winner, matchResult: event.data });
+      }
+    };
+
+    this.network.onProfile = (profile) => {
+      this.onUpdateHUD({ profile });
+    };
+    if (this.network.profile) this.onUpdateHUD({ profile: this.network.profile });
+
+    this.network.onPartyState = (party) => {
+      this.onUpdateHUD({ party, partyError: null });
+    };
+
+    this.network.onPartyError = (message) => {
+      this.onUpdateHUD({ partyError: message });
+    };
+
+    this.network.onLobbyState = (lobby) => {
+      this.onUpdateHUD({ customLobby: lobby, lobbyError: null });
+    };
+
+    this.network.onLobbyError = (message) => {
+      this.onUpdateHUD({ lobbyError: message });
+    };
+
+    this.network.onQueueLeft = () => {
+      this.isOnline = false;
+      this.gameActive = false;
+      this.onUpdateHUD({ searchCancelled: true });
     };
 
     this.network.onQueueStatus = (data) => {
+      // Party members are put in the queue by their leader
+      this.enterOnline();
       this.onUpdateHUD({ 
         isLobby: true, 
-        playersCount: data.position, 
+        playersCount: data.queueSize, 
+        playersNeeded: data.playersNeeded,
+        estimatedWait: data.estimatedWait,
         lobbyMode: data.mode 
       });
     };
@@ -542,8 +710,12 @@ export class Game {
     // Update Players
     next.players.forEach(nextP => {
       if (nextP.id === this.myId) {
-        // Reconciliation could go here
-        // For now, just update non-predicted state
+        // Position is predicted locally and reconciled per snapshot; only take the rest
+        if (!this.players.has(this.myId)) {
+          this.addPlayer(this.playerFromSnapshot(nextP));
+          this.body.pos.x = this.prevBodyPos.x = this.camera.position.x = nextP.pos.x;
+          this.body.pos.z = this.prevBodyPos.z = this.camera.position.z = nextP.pos.z;
+        }
         const p = this.players.get(this.myId);
         if (p) {
           p.data.stamina = nextP.stamina;
@@ -556,22 +728,7 @@ export class Game {
       let p = this.players.get(nextP.id);
       if (!p) {
         // Add new player
-        const playerData: PlayerData = {
-          id: nextP.id,
-          position: nextP.pos,
-          rotation: nextP.rot,
-          team: 'blue', // TODO: Get from init or snapshot
-          score: 0,
-          holdingBallId: nextP.holding,
-          isOut: nextP.state === 'out',
-          stamina: nextP.stamina,
-          maxStamina: 100,
-          isBlocking: nextP.blocking,
-          chargeLevel: nextP.charge,
-          rank: 'Unknown',
-          level: 1,
-          xp: 0
-        };
+        const playerData = this.playerFromSnapshot(nextP);
         this.addPlayer(playerData);
         p = this.players.get(nextP.id);
       }
@@ -634,6 +791,25 @@ export class Game {
     this.updateTeamCounts();
   }
 
+  private playerFromSnapshot(snapshot: PlayerSnapshot): PlayerData {
+    return {
+      id: snapshot.id,
+      position: { ...snapshot.pos },
+      rotation: { ...snapshot.rot },
+      team: snapshot.team,
+      score: 0,
+      holdingBallId: snapshot.holding,
+      isOut: snapshot.state === 'out',
+      stamina: snapshot.stamina,
+      maxStamina: this.ruleset.maxStamina,
+      isBlocking: snapshot.blocking,
+      chargeLevel: snapshot.charge,
+      rank: 'Unknown',
+      level: 1,
+      xp: 0
+    };
+  }
+
   private warmup() {
     // Create dummy objects to force shader compilation
     const dummyPlayer = createPlayerMesh('blue');
@@ -660,18 +836,21 @@ export class Game {
     this.scene.remove(dummyBall);
   }
 
-  public startOffline() {
+  public startOffline(ruleset: Ruleset = this.ruleset) {
     this.warmup();
+    this.replay = null;
     this.isOnline = false;
     this.myId = 'local';
     this.gameActive = true;
-    this.roundTime = 180;
+    this.ruleset = ruleset;
+    this.roundTime = ruleset.matchTime;
     this.lastTimeUpdate = Date.now();
-    this.onUpdateHUD({ winner: null, timer: 180 }); // Clear winner!
+    this.onUpdateHUD({ winner: null, connection: null, matchId: null, timer: ruleset.matchTime, maxCharge: ruleset.maxCharge, maxStamina: ruleset.maxStamina }); // Clear winner!
     
     // Clear existing
     this.players.forEach(p => this.scene.remove(p.mesh));
     this.players.clear();
+    this.outOrder = [];
     this.balls.forEach(b => this.scene.remove(b.mesh));
     this.balls.clear();
     this.bots.clear();
@@ -684,8 +863,8 @@ export class Game {
       score: 0,
       holdingBallId: null,
       isOut: false,
-      stamina: 100,
-      maxStamina: 100,
+      stamina: ruleset.maxStamina,
+      maxStamina: ruleset.maxStamina,
       isBlocking: false,
       chargeLevel: 0,
       rank: 'Bronze',
@@ -697,14 +876,17 @@ export class Game {
     this.applyCustomization('ball', this.currentBallColor);
     
     // Reset local state
-    this.stamina = 100;
+    this.body.stamina = ruleset.maxStamina;
+    this.body.staminaDelay = 0;
+    this.body.pos.x = this.prevBodyPos.x = 0;
+    this.body.pos.z = this.prevBodyPos.z = -25;
     this.chargeLevel = 0;
     this.isCharging = false;
     this.isBlocking = false;
     this.isSprinting = false;
     this.velocity.set(0, 0, 0);
     this.onUpdateHUD({ 
-      stamina: 100, 
+      stamina: ruleset.maxStamina, 
       chargeLevel: 0, 
       isBlocking: false,
       holding: false,
@@ -769,10 +951,10 @@ export class Game {
     }
 
     // Opening Rush: Balls at center
-    for (let i = 0; i < 6; i++) {
+    for (let i = 0; i < ruleset.ballCount; i++) {
       this.addBall({
         id: i,
-        position: { x: (i - 2.5) * 6, y: 0.5, z: 0 },
+        position: { x: (i - (ruleset.ballCount - 1) / 2) * 6, y: 0.5, z: 0 },
         velocity: { x: 0, y: 0, z: 0 },
         owner: null,
         state: 'idle',
@@ -786,6 +968,182 @@ export class Game {
     this.updateTeamCounts(); // Update HUD immediately
   }
 
+  public startReplay(replay: Replay) {
+    if (replay.snapshots.length === 0) return;
+    this.warmup();
+    this.isOnline = false;
+    this.gameActive = false;
+    this.myId = null;
+    this.spectatingId = null;
+    this.ruleset = replay.header.ruleset;
+    this.clearMatch();
+    if (this.fpBall) this.fpBall.visible = false;
+
+    const { snapshots } = replay;
+    this.replay = {
+      snapshots,
+      time: 0,
+      duration: snapshots[snapshots.length - 1].timestamp - snapshots[0].timestamp,
+      speed: 1,
+      paused: false,
+      playedFrame: 0,
+      camera: 'follow',
+      hudUpdatedAt: 0
+    };
+    this.camera.position.set(0, 20, -30);
+    this.camera.lookAt(0, 0, 0);
+    this.onUpdateHUD({ winner: null, connection: null, isOut: false, holding: false, maxCharge: this.ruleset.maxCharge, maxStamina: this.ruleset.maxStamina });
+  }
+
+  public stopReplay() {
+    this.replay = null;
+    this.clearMatch();
+    document.exitPointerLock();
+  }
+
+  // Players, balls and bots of whatever was on screen
+  private clearMatch() {
+    this.players.forEach(p => this.scene.remove(p.mesh));
+    this.players.clear();
+    this.balls.forEach(b => this.scene.remove(b.mesh));
+    this.balls.clear();
+    this.bots.clear();
+  }
+
+  public setReplayPaused(paused: boolean) {
+    if (!this.replay) return;
+    // Playing from the end starts over
+    if (!paused && this.replay.time >= this.replay.duration) this.seekReplay(0);
+    this.replay.paused = paused;
+    this.replay.hudUpdatedAt = 0;
+  }
+
+  public setReplaySpeed(speed: number) {
+    if (!this.replay) return;
+    this.replay.speed = Math.max(0.1, Math.min(8, speed));
+    this.replay.hudUpdatedAt = 0;
+  }
+
+  // Jumping skips the events in between, so seeking doesn't replay every sound at once
+  public seekReplay(time: number) {
+    if (!this.replay) return;
+    this.replay.time = Math.max(0, Math.min(this.replay.duration, time));
+    this.replay.playedFrame = this.replayFrameAt(this.replay.time);
+    this.replay.hudUpdatedAt = 0;
+  }
+
+  public setViewerCamera(camera: ViewerCamera) {
+    const view = this.replay ?? this.spectator;
+    if (!view) return;
+    view.camera = camera;
+    view.hudUpdatedAt = 0;
+  }
+
+  // Camera mode of a replay or spectator view, null while playing
+  private viewerCamera(): ViewerCamera | null {
+    return this.replay?.camera ?? this.spectator?.camera ?? null;
+  }
+
+  // Follow orbits a player like an eliminated one does, free flies with WASD, overview hangs off the sideline
+  private updateViewerCamera(camera: ViewerCamera, delta: number) {
+    if (camera === 'follow') {
+      this.updateSpectating();
+    } else if (camera === 'overview') {
+      this.camera.position.lerp(OVERVIEW_POSITION, 0.1);
+      this.camera.lookAt(0, 0, 0);
+    } else if (this.controls.isLocked) {
+      const forward = new THREE.Vector3();
+      this.camera.getWorldDirection(forward);
+      const right = new THREE.Vector3().crossVectors(forward, this.camera.up).normalize();
+      const speed = FREE_CAMERA_SPEED * (this.isSprinting ? 2 : 1) * delta;
+      this.camera.position.addScaledVector(forward, (Number(this.moveForward) - Number(this.moveBackward)) * speed);
+      this.camera.position.addScaledVector(right, (Number(this.moveRight) - Number(this.moveLeft)) * speed);
+      this.camera.position.y = Math.max(0.5, this.camera.position.y);
+    }
+  }
+
+  // Index of the last snapshot at or before `time`
+  private replayFrameAt(time: number) {
+    const snapshots = this.replay!.snapshots;
+    const at = snapshots[0].timestamp + time;
+    let low = 0;
+    let high = snapshots.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (snapshots[mid].timestamp <= at) low = mid;
+      else high = mid - 1;
+    }
+    return low;
+  }
+
+  private updateReplay(delta: number) {
+    const replay = this.replay!;
+    if (!replay.paused) {
+      replay.time = Math.min(replay.duration, replay.time + delta * 1000 * replay.speed);
+      if (replay.time >= replay.duration) replay.paused = true;
+    }
+
+    const index = this.replayFrameAt(replay.time);
+    const prev = replay.snapshots[index];
+    const next = replay.snapshots[Math.min(index + 1, replay.snapshots.length - 1)];
+    const span = next.timestamp - prev.timestamp;
+    const fraction = span > 0 ? (replay.snapshots[0].timestamp + replay.time - prev.timestamp) / span : 1;
+    this.applyInterpolatedState({ prev, next, fraction });
+
+    for (let i = replay.playedFrame + 1; i <= index; i++) {
+      replay.snapshots[i].events.forEach(event => this.playReplayEvent(event));
+    }
+    replay.playedFrame = index;
+
+    this.updateViewerCamera(replay.camera, delta);
+
+    const now = performance.now();
+    if (now - replay.hudUpdatedAt < REPLAY_HUD_INTERVAL) return;
+    replay.hudUpdatedAt = now;
+    this.onUpdateHUD({
+      timer: prev.matchState === 'warmup' ? prev.countdown : prev.time,
+      matchState: prev.matchState,
+      replay: {
+        time: replay.time,
+        duration: replay.duration,
+        paused: replay.paused,
+        speed: replay.speed,
+        camera: replay.camera,
+        following: replay.camera === 'follow' ? this.spectatingId : null
+      }
+    });
+  }
+
+  private updateSpectator(delta: number) {
+    const spectator = this.spectator!;
+    this.updateViewerCamera(spectator.camera, delta);
+
+    const now = performance.now();
+    if (now - spectator.hudUpdatedAt < REPLAY_HUD_INTERVAL) return;
+    spectator.hudUpdatedAt = now;
+    this.onUpdateHUD({
+      spectating: {
+        matchId: spectator.matchId,
+        delay: spectator.delay,
+        camera: spectator.camera,
+        following: spectator.camera === 'follow' ? this.spectatingId : null
+      }
+    });
+  }
+
+  // Sounds only; the snapshots already carry what the events did
+  private playReplayEvent(event: GameEvent) {
+    if (event.type === 'elimination') {
+      sounds.playEnemyDeath();
+    } else if (event.type === 'catch') {
+      sounds.playCatch(false);
+    } else if (event.type === 'block') {
+      sounds.playBlock(event.data.broken);
+    } else if (event.type === 'foul') {
+      sounds.playWhistle();
+    }
+  }
+
   private addPlayer(data: PlayerData) {
     if (data.id === this.myId) {
       this.players.set(data.id, { data, mesh: new THREE.Group() }); // Dummy mesh for self
@@ -851,9 +1209,12 @@ export class Game {
           }
 
           sounds.playCatch(playerId === this.myId);
-          // Offline catch: Just stop the ball, NO REVIVE (nerfed)
-          // The thrower is NOT out, and no teammate returns.
-          // It's purely a defensive move now.
+          // Offline we apply the catch rule ourselves; online the server sends the elimination and respawn
+          if (!this.isOnline && this.ruleset.catchRevives) {
+            if (!thrower.data.isOut) this.onPlayerOut(throwerId, 'caught');
+            const teammateId = this.outOrder.find(id => this.players.get(id)?.data.team === player.data.team);
+            if (teammateId) this.onPlayerRespawn(teammateId);
+          }
         }
       }
 
@@ -902,6 +1263,7 @@ export class Game {
       player.data.isOut = true;
       player.mesh.visible = false;
       player.mesh.position.set(0, -10, 0);
+      if (!this.outOrder.includes(playerId)) this.outOrder.push(playerId);
       if (playerId === this.myId) {
         this.onUpdateHUD({ isOut: true });
         if (this.fpBall) this.fpBall.visible = false;
@@ -930,6 +1292,33 @@ export class Game {
     }
   }
 
+  // Back in after a teammate's catch. Online the snapshots carry the new position; offline they go back to their baseline.
+  private onPlayerRespawn(playerId: string) {
+    const player = this.players.get(playerId);
+    if (!player) return;
+
+    player.data.isOut = false;
+    player.mesh.visible = true;
+    this.outOrder = this.outOrder.filter(id => id !== playerId);
+    if (!this.isOnline) player.mesh.position.set((Math.random() - 0.5) * 20, 0, player.data.team === 'blue' ? -25 : 25);
+
+    if (playerId === this.myId) {
+      this.spectatingId = null;
+      if (!this.isOnline) {
+        this.body.pos.x = this.prevBodyPos.x = player.mesh.position.x;
+        this.body.pos.z = this.prevBodyPos.z = player.mesh.position.z;
+        this.body.vel.x = this.body.vel.z = 0;
+        this.body.stamina = player.data.maxStamina;
+        this.body.staminaDelay = 0;
+      }
+      // Out of the orbit camera, back to eye level facing the other side
+      this.camera.position.set(this.body.pos.x, 1.6, this.body.pos.z);
+      this.camera.rotation.set(0, player.data.team === 'blue' ? Math.PI : 0, 0);
+      this.onUpdateHUD({ isOut: false });
+    }
+    this.updateTeamCounts();
+  }
+
   private updateTeamCounts() {
     let blueCount = 0;
     let redCount = 0;
@@ -1018,34 +1407,20 @@ export class Game {
            this.applyInterpolatedState({ prev: state, next: state, fraction: 1 });
         }
       }
-      
-    // Send Inputs
-    if ((this.controls.isLocked || this.isMobile) && myPlayer && !myPlayer.data.isOut) {
-      const direction = new THREE.Vector3();
-      this.camera.getWorldDirection(direction);
-      
-      this.network.sendInput({
-        move: { x: this.direction.x, z: this.direction.z },
-        aim: { x: direction.x, y: direction.y, z: direction.z },
-        sprint: this.isSprinting,
-        block: this.isBlocking,
-        throw: {
-          active: this.isCharging && !this.canPickUp, // Simplified trigger
-          charge: this.chargeLevel,
-          curve: this.curveLeft ? -1 : (this.curveRight ? 1 : 0)
-        },
-        catch: false // TODO: Implement catch trigger
-      });
     }
-  }
 
   if ((this.controls.isLocked || this.isMobile) && myPlayer && !myPlayer.data.isOut) {
+    if (this.isOnline) this.updatePrediction(delta);
     this.updateMovement(delta);
   } else if (myPlayer && myPlayer.data.isOut) {
       this.updateSpectating();
     }
 
-    if (!this.isOnline) {
+    if (this.replay) {
+      this.updateReplay(delta);
+    } else if (this.spectator) {
+      this.updateSpectator(delta);
+    } else if (!this.isOnline) {
       this.updateBots(delta);
       
       if (Date.now() - this.lastTimeUpdate > 1000) {
@@ -1081,7 +1456,7 @@ export class Game {
       }
     }
 
-    this.updateBalls(delta);
+    if (!this.replay && !this.spectator) this.updateBalls(delta); // Replays and spectators show the server's flights
     this.updatePlayerVisuals();
     this.renderer.render(this.scene, this.camera);
   }
@@ -1151,30 +1526,98 @@ export class Game {
     }
   }
 
-  private updateMovement(delta: number) {
+  // World-space wish direction from keys/joystick, relative to where the camera looks
+  private readMoveInput(): MovementInput {
+    let right = Number(this.moveRight) - Number(this.moveLeft);
+    let forward = Number(this.moveForward) - Number(this.moveBackward);
+    if (this.isMobile) {
+      right = this.mobileMove.x;
+      forward = this.mobileMove.y;
+    }
+
+    const look = new THREE.Vector3();
+    this.camera.getWorldDirection(look);
+    look.y = 0;
+    look.normalize();
+
+    const move = { x: -look.z * right + look.x * forward, z: look.x * right + look.z * forward };
+    const length = Math.sqrt(move.x * move.x + move.z * move.z);
+    if (length > 1) {
+      move.x /= length;
+      move.z /= length;
+    }
+    return { move, sprint: this.isSprinting };
+  }
+
+  // Online: step the local player at the server tick rate, sending one input per step
+  private updatePrediction(delta: number) {
     const myPlayer = this.myId ? this.players.get(this.myId)?.data : null;
     if (!myPlayer) return;
 
-    // Stamina Regeneration
-    if (Date.now() - this.lastStaminaUseTime > 2000) {
-      this.stamina = Math.min(this.maxStamina, this.stamina + 25 * delta);
-    }
+    this.predictionAccumulator = runFixedSteps(this.predictionAccumulator, delta, TICK_DT, () => {
+      const direction = new THREE.Vector3();
+      this.camera.getWorldDirection(direction);
+      const input = this.readMoveInput();
+      const release = this.pendingThrow;
+      this.pendingThrow = null;
+
+      const packet = this.network.sendInput({
+        move: input.move,
+        aim: release ? release.aim : { x: direction.x, y: direction.y, z: direction.z },
+        sprint: input.sprint,
+        block: this.isBlocking,
+        throw: {
+          active: release !== null, // Only the release tick throws
+          charge: release ? release.charge : this.chargeLevel,
+          curve: release ? release.curve : (this.curveLeft ? -1 : (this.curveRight ? 1 : 0))
+        },
+        catch: this.pendingCatch
+      });
+      this.pendingCatch = false;
+      this.pendingInputs.push(packet);
+
+      this.prevBodyPos.x = this.body.pos.x;
+      this.prevBodyPos.z = this.body.pos.z;
+      stepMovement(this.body, packet, myPlayer.team, TICK_DT, this.ruleset);
+    });
+
+    // Render between the last two ticks so 30Hz steps look smooth
+    const alpha = this.predictionAccumulator / TICK_DT;
+    this.camera.position.x = THREE.MathUtils.lerp(this.prevBodyPos.x, this.body.pos.x, alpha);
+    this.camera.position.z = THREE.MathUtils.lerp(this.prevBodyPos.z, this.body.pos.z, alpha);
+  }
 
-    // Sprinting Logic
-    let currentSpeed = 120.0;
-    if (this.isSprinting && this.stamina > 5 && (this.moveForward || this.moveBackward || this.moveLeft || this.moveRight)) {
-      currentSpeed = 220.0;
-      this.stamina -= 40 * delta;
-      this.lastStaminaUseTime = Date.now();
+  // Rewind the local player to the server's state and replay unacknowledged inputs
+  private reconcile(snapshot: WorldSnapshot) {
+    const me = snapshot.players.find(p => p.id === this.myId);
+    if (!me) return;
+
+    this.pendingInputs = this.pendingInputs.filter(input => input.seq > me.lastInputSeq);
+
+    this.body.pos.x = me.pos.x;
+    this.body.pos.z = me.pos.z;
+    this.body.vel.x = me.vel.x;
+    this.body.vel.z = me.vel.z;
+    this.body.stamina = me.stamina;
+    this.body.staminaDelay = me.staminaDelay;
+
+    if (me.state !== 'alive') {
+      this.pendingInputs = [];
+      return;
     }
+    this.pendingInputs.forEach(input => stepMovement(this.body, input, me.team, TICK_DT, this.ruleset));
+  }
+
+  private updateMovement(delta: number) {
+    const myPlayer = this.myId ? this.players.get(this.myId)?.data : null;
+    if (!myPlayer) return;
 
     // Charging Logic
     if (this.isCharging) {
-      this.chargeLevel = Math.min(1.5, this.chargeLevel + delta);
-      this.stamina -= 20 * delta;
-      this.lastStaminaUseTime = Date.now();
+      this.chargeLevel = Math.min(this.ruleset.maxCharge, this.chargeLevel + delta);
+      useStamina(this.body, this.ruleset.chargeStaminaDrain * delta);
       sounds.playCharge(this.chargeLevel); // Update pitch
-      if (this.stamina <= 0) {
+      if (this.body.stamina <= 0) {
         this.handleMouseUp(); // Force throw if out of stamina
       }
     }
@@ -1183,10 +1626,9 @@ export class Game {
     if (this.isBlocking) {
       if (myPlayer.holdingBallId === null) {
         this.isBlocking = false; // Can't block without ball
-      } else if (this.stamina > 0) {
-        this.stamina -= 30 * delta;
-        this.lastStaminaUseTime = Date.now();
-        if (this.stamina <= 0) {
+      } else if (this.body.stamina > 0) {
+        useStamina(this.body, this.ruleset.blockStaminaDrain * delta);
+        if (this.body.stamina <= 0) {
           this.isBlocking = false;
           // Force drop ball (vulnerable state)
           this.throwBall(myPlayer.holdingBallId, 0);
@@ -1194,53 +1636,38 @@ export class Game {
       }
     }
 
-    // Holding Ball Timer (Eliminate if held too long > 10s)
-    if (myPlayer.holdingBallId !== null) {
+    // Holding Ball Timer: the server enforces it online, offline we warn and penalize here
+    if (myPlayer.holdingBallId === null) {
+      this.holdDeadline = null;
+    } else if (!this.isOnline) {
       const ball = this.balls.get(myPlayer.holdingBallId);
-      if (ball && Date.now() - ball.data.lastInteractionTime > 10000) {
-        this.onPlayerOut(this.myId!, 'timeout');
+      const deadline = ball ? ball.data.lastInteractionTime + this.ruleset.holdTimeout * 1000 : null;
+      if (deadline !== null && Date.now() >= deadline) {
+        sounds.playWhistle();
+        if (this.ruleset.holdPenalty === 'eliminate') this.onPlayerOut(this.myId!, 'timeout');
+        else this.throwBall(myPlayer.holdingBallId, 0);
+      } else if (deadline !== null && deadline - Date.now() <= this.ruleset.holdWarning * 1000) {
+        this.holdDeadline = deadline;
       }
     }
 
-    // Balanced movement
-    const friction = 8.0;
-    const acceleration = currentSpeed;
-
-    this.velocity.x -= this.velocity.x * friction * delta;
-    this.velocity.z -= this.velocity.z * friction * delta;
-
-    this.direction.z = Number(this.moveForward) - Number(this.moveBackward);
-    this.direction.x = Number(this.moveRight) - Number(this.moveLeft);
-    
-    if (this.isMobile) {
-      this.direction.x = this.mobileMove.x;
-      this.direction.z = this.mobileMove.y; 
-    }
-
-    this.direction.normalize();
-
-    if (this.moveForward || this.moveBackward || (this.isMobile && Math.abs(this.mobileMove.y) > 0.1)) this.velocity.z -= this.direction.z * acceleration * delta;
-    if (this.moveLeft || this.moveRight || (this.isMobile && Math.abs(this.mobileMove.x) > 0.1)) this.velocity.x -= this.direction.x * acceleration * delta;
-
-    this.controls.moveRight(-this.velocity.x * delta);
-    this.controls.moveForward(-this.velocity.z * delta);
-
-    // Arena bounds & Center line (Dodgeball Rules)
-    const limit = ARENA_SIZE / 2 - 2.0;
-    
-    this.camera.position.x = Math.max(-limit, Math.min(limit, this.camera.position.x));
-    
-    if (myPlayer.team === 'blue') {
-      this.camera.position.z = Math.max(-limit, Math.min(-0.5, this.camera.position.z));
-    } else {
-      this.camera.position.z = Math.max(0.5, Math.min(limit, this.camera.position.z));
+    // Offline moves with the frame delta; online is stepped by updatePrediction
+    if (!this.isOnline) {
+      stepMovement(this.body, this.readMoveInput(), myPlayer.team, delta, this.ruleset, myPlayer.maxStamina);
+      this.camera.position.x = this.body.pos.x;
+      this.camera.position.z = this.body.pos.z;
+      if (this.ruleset.lineFault && crossedCenterLine(this.body.pos.z, myPlayer.team, this.ruleset.centerLine)) {
+        sounds.playWhistle();
+        this.onPlayerOut(this.myId!, 'foul');
+      }
     }
 
     // Update HUD
     this.onUpdateHUD({ 
-      stamina: this.stamina, 
+      stamina: this.body.stamina, 
       chargeLevel: this.chargeLevel,
-      isBlocking: this.isBlocking
+      isBlocking: this.isBlocking,
+      holdDeadline: this.holdDeadline
     });
 
     // Update Pickup Indicator & Aim Feedback
@@ -1295,7 +1722,7 @@ export class Game {
     // Find someone to spectate if we don't have one or they are out
     if (!this.spectatingId || (this.players.get(this.spectatingId)?.data.isOut)) {
       const teammates = Array.from(this.players.entries())
-        .filter(([id, p]) => id !== this.myId && p.data.team === myTeam && !p.data.isOut);
+        .filter(([id, p]) => id !== this.myId && (this.viewerCamera() !== null || p.data.team === myTeam) && !p.data.isOut);
       
       if (teammates.length > 0) {
         this.spectatingId = teammates[0][0];
@@ -1332,7 +1759,10 @@ export class Game {
       claimedBallIds: this.claimedBallIds,
       onBallGrabbed: this.onBallGrabbed.bind(this),
       onBallThrown: this.onBallThrown.bind(this),
-      createTrail: this.createTrail.bind(this)
+      createTrail: this.createTrail.bind(this),
+      getRuleset: () => this.ruleset,
+      now: () => Date.now(),
+      random: () => Math.random()
     };
   }
 
@@ -1341,129 +1771,58 @@ export class Game {
     this.bots.forEach(bot => bot.update(delta));
   }
 
+  // Balls step at the server tick rate so offline flights match online ones exactly
   private updateBalls(delta: number) {
-    this.balls.forEach((ball, id) => {
-      if (ball.data.state === 'thrown' || ball.data.state === 'idle') {
-        
-        // Curve Physics - Gradual & Speed Dependent
-        if (ball.data.state === 'thrown' && ball.data.type === 'curve' && ball.data.isLive) {
-          const velocity = new THREE.Vector3(ball.data.velocity.x, ball.data.velocity.y, ball.data.velocity.z);
-          const speed = velocity.length();
-          
-          const forward = new THREE.Vector3(velocity.x, 0, velocity.z).normalize();
-          const up = new THREE.Vector3(0, 1, 0);
-          const right = new THREE.Vector3().crossVectors(forward, up).normalize();
-          
-          const speedFactor = Math.max(0.2, 1.0 - (speed / 60));
-          const curveStrength = ball.data.curveFactor * 35 * speedFactor * delta;
-          
-          const curveForce = right.multiplyScalar(curveStrength);
-          
-          ball.data.velocity.x += curveForce.x;
-          ball.data.velocity.z += curveForce.z;
-          
-          const newVel = new THREE.Vector3(ball.data.velocity.x, ball.data.velocity.y, ball.data.velocity.z);
-          newVel.normalize().multiplyScalar(speed);
-          ball.data.velocity.x = newVel.x;
-          ball.data.velocity.z = newVel.z;
-        }
+    this.ballAccumulator = runFixedSteps(this.ballAccumulator, delta, TICK_DT, () => this.stepBalls(TICK_DT), TICK_DT * 10);
 
-        // Apply velocity
-        ball.mesh.position.x += ball.data.velocity.x * delta;
-        ball.mesh.position.y += ball.data.velocity.y * delta;
-        ball.mesh.position.z += ball.data.velocity.z * delta;
-        
-        // Gravity
-        if (ball.mesh.position.y > 0.3) {
-          let gravity = 15;
-          if (ball.data.type === 'lob') gravity = 8;
-          ball.data.velocity.y -= gravity * delta;
-        }
+    // Update Trail Color to be White (Smoke/Air trail)
+    this.ballTrails.forEach(trail => {
+      if (trail.mesh.visible) {
+        (trail.mesh.material as THREE.MeshBasicMaterial).color.setHex(0xFFFFFF);
+        (trail.mesh.material as THREE.MeshBasicMaterial).opacity = 0.4;
+      }
+    });
+  }
 
-        // Floor collision & Bouncing
-        if (ball.mesh.position.y < 0.3) {
-          ball.mesh.position.y = 0.3;
-          
-          if (ball.data.isLive) {
-            ball.data.isLive = false;
-            ball.data.owner = null;
-            ball.data.state = 'idle';
+  private stepBalls(dt: number) {
+    this.balls.forEach(ball => {
+      if (ball.data.state !== 'thrown' && ball.data.state !== 'idle') return;
+
+      const live = ball.data.state === 'thrown' && ball.data.isLive;
+      const body = { pos: ball.mesh.position, vel: ball.data.velocity, type: ball.data.type, curveFactor: ball.data.curveFactor };
+      const step = stepBall(body, dt, live);
+
+      // Player collision (swept, so fast throws can't tunnel)
+      if (live && !step.outOfBounds) {
+        const ballOwner = this.players.get(ball.data.owner || '');
+        this.players.forEach((player, playerId) => {
+          if (!ball.data.isLive) return;
+          if (playerId !== ball.data.owner && player.mesh.visible && !player.data.isOut) {
+            if (ballOwner && ballOwner.data.team === player.data.team) return;
+
+            const playerPos = playerId === 'local' ? this.camera.position.clone() : player.mesh.position.clone();
+            // Adjust player pos to center mass (chest height)
+            if (playerId !== 'local') playerPos.y += 1.05;
+            else playerPos.y -= 0.5; // Camera is at 1.6, chest is around 1.1
+
+            if (sweptHit(step.from, ball.mesh.position, playerPos, this.ruleset.hitRadius)) {
+              sounds.playHit();
+              this.onPlayerOut(playerId, 'hit');
+              ball.data.isLive = false;
+              ball.data.velocity.x *= 0.2;
+              ball.data.velocity.z *= 0.2;
+              ball.data.velocity.y = 5;
+            }
           }
+        });
+      }
 
-          ball.data.velocity.y *= -0.6;
-          
-          // Improved Friction
-          const friction = 0.95; // Keep 95% of velocity per frame when on ground
-          ball.data.velocity.x *= Math.pow(friction, delta * 60);
-          ball.data.velocity.z *= Math.pow(friction, delta * 60);
-
-          if (Math.abs(ball.data.velocity.y) < 1.0) ball.data.velocity.y = 0;
-          if (Math.abs(ball.data.velocity.x) < 0.1) ball.data.velocity.x = 0;
-          if (Math.abs(ball.data.velocity.z) < 0.1) ball.data.velocity.z = 0;
-        }
-
-        // Out of Bounds Reset (Respawn Mechanic)
-        if (Math.abs(ball.mesh.position.x) > ARENA_SIZE / 2 + 5 || Math.abs(ball.mesh.position.z) > ARENA_SIZE / 2 + 5 || ball.mesh.position.y < -5) {
-           ball.data.state = 'idle';
-           ball.data.isLive = false;
-           ball.data.owner = null;
-           ball.data.velocity = { x: 0, y: 0, z: 0 };
-           ball.mesh.position.set(0, 5, 0); // Drop from sky at center
-        }
-
-        // Wall collision & Bouncing
-        const limit = ARENA_SIZE / 2 - 0.5;
-        if (Math.abs(ball.mesh.position.x) > limit) {
-          ball.mesh.position.x = Math.sign(ball.mesh.position.x) * limit;
-          ball.data.velocity.x *= -0.6;
-          ball.data.isLive = false; // Dead on wall hit
-        }
-        if (Math.abs(ball.mesh.position.z) > limit) {
-          ball.mesh.position.z = Math.sign(ball.mesh.position.z) * limit;
-          ball.data.velocity.z *= -0.6;
-          ball.data.isLive = false; // Dead on wall hit
-        }
-        
-        // Update Trail Color to be White (Smoke/Air trail)
-        const trail = this.ballTrails.get(id);
-        if (trail && trail.mesh.visible) {
-           (trail.mesh.material as THREE.MeshBasicMaterial).color.setHex(0xFFFFFF);
-           (trail.mesh.material as THREE.MeshBasicMaterial).opacity = 0.4;
-        }
-
-        // Player collision (Raycast for anti-tunneling)
-        if (ball.data.state === 'thrown' && ball.data.isLive) {
-          const ballOwner = this.players.get(ball.data.owner || '');
-          const prevPos = ball.mesh.position.clone().sub(new THREE.Vector3(ball.data.velocity.x * delta, ball.data.velocity.y * delta, ball.data.velocity.z * delta));
-          const currentPos = ball.mesh.position.clone();
-          
-          // Segment for this frame
-          const segment = new THREE.Line3(prevPos, currentPos);
-          const closestPoint = new THREE.Vector3();
-
-          this.players.forEach((player, playerId) => {
-            if (playerId !== ball.data.owner && player.mesh.visible && !player.data.isOut) {
-              if (ballOwner && ballOwner.data.team === player.data.team) return;
-
-              const playerPos = playerId === 'local' ? this.camera.position.clone() : player.mesh.position.clone();
-              // Adjust player pos to center mass (chest height)
-              if (playerId !== 'local') playerPos.y += 1.05; 
-              else playerPos.y -= 0.5; // Camera is at 1.6, chest is around 1.1
-              
-              segment.closestPointToPoint(playerPos, true, closestPoint);
-              const dist = closestPoint.distanceTo(playerPos);
-              
-              // Hit radius: 0.6 (Player width) + 0.35 (Ball radius) = 0.95
-              if (dist < 1.0) {
-                sounds.playHit();
-                this.onPlayerOut(playerId, 'hit');
-                ball.data.isLive = false;
-                ball.data.velocity.x *= 0.2;
-                ball.data.velocity.z *= 0.2;
-                ball.data.velocity.y = 5;
-              }
-            }
-          });
+      // Floor, walls and leaving the arena all kill the throw
+      if (step.hitFloor || step.hitWall || step.outOfBounds) {
+        ball.data.isLive = false;
+        if (step.hitFloor || step.outOfBounds) {
+          ball.data.state = 'idle';
+          ball.data.owner = null;
         }
       }
     });
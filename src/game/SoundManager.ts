@@ -54,6 +54,19 @@ export class SoundManager {
     }
   }
 
+  public playBlock(broken: boolean) {
+    if (broken) {
+      this.playTone(120, 'sawtooth', 0.3, 0.4, true, 40); // Shield shatters
+    } else {
+      this.playTone(600, 'triangle', 0.15, 0.3, true, 300); // Clang
+    }
+  }
+
+  public playWhistle() {
+    this.playTone(2200, 'sine', 0.25, 0.25, false); // Referee's whistle
+    setTimeout(() => this.playTone(2200, 'sine', 0.35, 0.25), 300);
+  }
+
   public playPickup() {
     this.playTone(400, 'sine', 0.05, 0.1);
   }
@@ -1,62 +1,272 @@
 import { io, Socket } from 'socket.io-client';
 import * as THREE from 'three';
-import { InputPacket, WorldSnapshot, InitPacket, TICK_RATE } from './protocol';
+import { decodeInput, decodeSnapshot, encodeInput } from './codec';
+import { ConnectionStats, GameEvent, InputPacket, WorldSnapshot, InitPacket, LobbySettings, LobbyState, PartyState, PingPacket, PlayerProfile, QueueStatus, SessionPacket, SpectatePacket, TeamId, INTERPOLATION_DELAY, MAX_INTERPOLATION_DELAY, MIN_INTERPOLATION_DELAY, SNAPSHOT_HISTORY, SNAPSHOT_RATE, TICK_RATE } from './protocol';
+
+const TOKEN_KEY = 'polyDodge_token';
+
+const OFFSET_SAMPLES = 9; // The clock offset is the median of this many pings, so one slow trip can't skew it
+const JITTER_GAIN = 1 / 16; // Running jitter estimate as in RTP
+const JITTER_MARGIN = 3; // Snapshots up to this many jitters late still arrive before they are rendered
+const DELAY_SMOOTHING = 0.05; // Interpolation delay eases toward its target so remote players don't jump
 
 export class NetworkManager {
   private socket: Socket;
   private inputSeq: number = 0;
+  private bound = false; // Between 'init' and a disconnect; the server only takes inputs for a slot it has bound us to
   private snapshots: WorldSnapshot[] = [];
+  private lastEventSeq = 0; // Events are resent until acked, so the same one can arrive several times
+  private offsetSamples: number[] = [];
+  private lastTransit: number | null = null; // Arrival minus send time of the previous snapshot
   
   public playerId: string | null = null;
   public matchId: string | null = null;
   public serverTimeOffset: number = 0;
+  public spectating = false;
+  private viewDelay = 0; // Spectators render this much further back, the stream runs behind the match
+  public stats: ConnectionStats = { rtt: null, jitter: 0, loss: 0, interpolationDelay: INTERPOLATION_DELAY };
   
   public onInit: ((data: InitPacket) => void) | null = null;
   public onSnapshot: ((snapshot: WorldSnapshot) => void) | null = null;
-  public onEvent: ((event: any) => void) | null = null;
-  public onQueueStatus: ((data: { position: number, mode: 'casual' | 'ranked' }) => void) | null = null;
+  public onEvent: ((event: GameEvent) => void) | null = null;
+  public onStats: ((stats: ConnectionStats) => void) | null = null;
+  public onKicked: ((reason: string) => void) | null = null;
+  public onSpectate: ((data: SpectatePacket) => void) | null = null;
+  public onSpectateError: ((message: string) => void) | null = null;
+  public onSpectateEnded: (() => void) | null = null;
+  public onQueueStatus: ((data: QueueStatus) => void) | null = null;
+  public onQueueLeft: (() => void) | null = null;
+  public onProfile: ((profile: PlayerProfile) => void) | null = null;
+  public onPartyState: ((party: PartyState | null) => void) | null = null;
+  public onPartyError: ((message: string) => void) | null = null;
+  public onLobbyState: ((lobby: LobbyState | null) => void) | null = null;
+  public onLobbyError: ((message: string) => void) | null = null;
+
+  public profile: PlayerProfile | null = null;
+  public party: PartyState | null = null;
+  public lobby: LobbyState | null = null;
 
   constructor() {
-    this.socket = io();
+    const token = localStorage.getItem(TOKEN_KEY);
+    this.socket = io({ auth: token ? { token } : {} });
     
     this.socket.on('connect', () => {
       console.log('Connected to server');
     });
 
-    this.socket.on('queueStatus', (data: { position: number, mode: 'casual' | 'ranked' }) => {
+    this.socket.on('disconnect', () => {
+      this.bound = false;
+    });
+
+    this.socket.on('session', (data: SessionPacket) => {
+      localStorage.setItem(TOKEN_KEY, data.token);
+      // Reconnects send the auth as it is now, so they come back as the same account and can rejoin
+      (this.socket.auth as { token?: string }).token = data.token;
+      this.setProfile(data.profile);
+    });
+
+    this.socket.on('profile', (profile: PlayerProfile | null) => {
+      if (profile) this.setProfile(profile);
+    });
+
+    this.socket.on('queueStatus', (data: QueueStatus) => {
       if (this.onQueueStatus) this.onQueueStatus(data);
     });
 
+    this.socket.on('queueLeft', () => {
+      if (this.onQueueLeft) this.onQueueLeft();
+    });
+
+    this.socket.on('partyState', (party: PartyState | null) => {
+      this.party = party;
+      if (this.onPartyState) this.onPartyState(party);
+    });
+
+    this.socket.on('partyError', (message: string) => {
+      if (this.onPartyError) this.onPartyError(message);
+    });
+
+    this.socket.on('lobbyState', (lobby: LobbyState | null) => {
+      this.lobby = lobby;
+      if (this.onLobbyState) this.onLobbyState(lobby);
+    });
+
+    this.socket.on('lobbyError', (message: string) => {
+      if (this.onLobbyError) this.onLobbyError(message);
+    });
+
     this.socket.on('init', (data: InitPacket) => {
       this.playerId = data.playerId;
-      this.matchId = data.matchId;
-      this.serverTimeOffset = data.serverTime - Date.now();
+      this.inputSeq = 0; // The server starts the slot over at 0 on a rejoin too
+      this.bound = true;
+      this.spectating = false;
+      this.viewDelay = 0;
+      this.resetMatch(data.matchId, data.serverTime);
       if (this.onInit) this.onInit(data);
     });
 
-    this.socket.on('snapshot', (snapshot: WorldSnapshot) => {
+    this.socket.on('spectateInit', (data: SpectatePacket) => {
+      this.playerId = null;
+      this.bound = false;
+      this.spectating = true;
+      this.viewDelay = data.delay;
+      this.resetMatch(data.matchId, data.serverTime);
+      if (this.onSpectate) this.onSpectate(data);
+    });
+
+    this.socket.on('spectateError', (message: string) => {
+      if (this.onSpectateError) this.onSpectateError(message);
+    });
+
+    this.socket.on('spectateEnded', () => {
+      this.spectating = false;
+      if (this.onSpectateEnded) this.onSpectateEnded();
+    });
+
+    this.socket.on('ping', (ping: PingPacket) => this.handlePing(ping));
+
+    this.socket.on('kicked', (reason: string) => {
+      if (this.onKicked) this.onKicked(reason);
+    });
+
+    this.socket.on('snapshot', (data: ArrayBuffer) => {
+      let snapshot: WorldSnapshot;
+      try {
+        snapshot = decodeSnapshot(data, tick => this.snapshots.find(s => s.tick === tick));
+      } catch (err) {
+        console.warn('Dropped snapshot:', err); // No baseline; the next keyframe catches up
+        return;
+      }
+      if (!this.spectating) this.socket.emit('ack', snapshot.tick); // The spectator stream needs no acks
+      this.measureJitter(snapshot);
+
       this.snapshots.push(snapshot);
-      // Keep buffer small
-      if (this.snapshots.length > 20) this.snapshots.shift();
+      // Deltas can name any snapshot the server still keeps as their baseline
+      if (this.snapshots.length > SNAPSHOT_HISTORY) this.snapshots.shift();
       if (this.onSnapshot) this.onSnapshot(snapshot);
-    });
 
-    this.socket.on('event', (event: any) => {
-      if (this.onEvent) this.onEvent(event);
+      snapshot.events.forEach(event => {
+        if (event.seq <= this.lastEventSeq) return;
+        this.lastEventSeq = event.seq;
+        if (this.onEvent) this.onEvent(event);
+      });
     });
   }
 
+  private resetMatch(matchId: string, serverTime: number) {
+    this.matchId = matchId;
+    this.snapshots = []; // Ticks start over, old snapshots can't be delta baselines
+    this.lastEventSeq = 0;
+    this.lastTransit = null;
+    this.offsetSamples = [];
+    this.serverTimeOffset = serverTime - Date.now();
+  }
+
+  private handlePing(ping: PingPacket) {
+    this.socket.emit('pong', { id: ping.id, interpolationDelay: this.stats.interpolationDelay });
+
+    // The server time in the ping is half a round trip old by now
+    this.offsetSamples.push(ping.serverTime + (ping.rtt ?? 0) / 2 - Date.now());
+    if (this.offsetSamples.length > OFFSET_SAMPLES) this.offsetSamples.shift();
+    const sorted = [...this.offsetSamples].sort((a, b) => a - b);
+    this.serverTimeOffset = sorted[Math.floor(sorted.length / 2)];
+
+    this.stats = { ...this.stats, rtt: ping.rtt, loss: ping.loss };
+    if (this.onStats) this.onStats(this.stats);
+  }
+
+  // Snapshots leave the server at a steady rate, so changes in how long they take to arrive are jitter
+  private measureJitter(snapshot: WorldSnapshot) {
+    const transit = Date.now() + this.serverTimeOffset - snapshot.timestamp;
+    if (this.lastTransit !== null) {
+      const jitter = this.stats.jitter + (Math.abs(transit - this.lastTransit) - this.stats.jitter) * JITTER_GAIN;
+      const target = Math.min(MAX_INTERPOLATION_DELAY, Math.max(MIN_INTERPOLATION_DELAY, 1000 / SNAPSHOT_RATE + JITTER_MARGIN * jitter));
+      const interpolationDelay = this.stats.interpolationDelay + (target - this.stats.interpolationDelay) * DELAY_SMOOTHING;
+      this.stats = { ...this.stats, jitter, interpolationDelay };
+    }
+    this.lastTransit = transit;
+  }
+
+  private setProfile(profile: PlayerProfile) {
+    this.profile = profile;
+    if (this.onProfile) this.onProfile(profile);
+  }
+
+  public requestProfile() {
+    this.socket.emit('getProfile');
+  }
+
   public joinQueue(mode: 'casual' | 'ranked') {
     this.socket.emit('joinQueue', mode);
   }
 
+  public leaveQueue() {
+    this.socket.emit('leaveQueue');
+  }
+
+  public createParty() {
+    this.socket.emit('createParty');
+  }
+
+  public joinParty(code: string) {
+    this.socket.emit('joinParty', code);
+  }
+
+  public leaveParty() {
+    this.socket.emit('leaveParty');
+  }
+
+  public createLobby(settings: Partial<LobbySettings> = {}) {
+    this.socket.emit('createLobby', settings);
+  }
+
+  public joinLobby(code: string) {
+    this.socket.emit('joinLobby', code);
+  }
+
+  public leaveLobby() {
+    this.socket.emit('leaveLobby');
+  }
+
+  public updateLobbySettings(settings: Partial<LobbySettings>) {
+    this.socket.emit('lobbySettings', settings);
+  }
+
+  public pickLobbyTeam(team: TeamId | null) {
+    this.socket.emit('lobbyTeam', team);
+  }
+
+  public startLobby() {
+    this.socket.emit('startLobby');
+  }
+
+  public spectate(matchId: string) {
+    this.socket.emit('spectate', matchId);
+  }
+
+  public stopSpectating() {
+    this.spectating = false;
+    this.socket.emit('stopSpectating');
+  }
+
+  public getSocketId() {
+    return this.socket.id ?? null;
+  }
+
+  public isPartyMember() {
+    return this.party !== null && this.party.leaderId !== this.socket.id;
+  }
+
   public sendInput(input: Omit<InputPacket, 'seq' | 'timestamp'>) {
-    const packet: InputPacket = {
+    const bytes = encodeInput({
       ...input,
-      seq: this.inputSeq++,
+      seq: ++this.inputSeq,
       timestamp: Date.now() + this.serverTimeOffset
-    };
-    this.socket.emit('input', packet);
+    });
+    // Emits made while disconnected are buffered and would all land at once on the rejoined slot
+    if (this.bound && this.socket.connected) this.socket.emit('input', bytes);
+    // Predict with what the server will decode, quantization included
+    return decodeInput(bytes);
   }
 
   public disconnect() {
@@ -68,7 +278,7 @@ export class NetworkManager {
     // renderTime should be typically (serverTime - 100ms)
     
     const serverTime = Date.now() + this.serverTimeOffset;
-    const interpolationTime = serverTime - 100; // 100ms buffer
+    const interpolationTime = serverTime - this.viewDelay - this.stats.interpolationDelay;
 
     let prev = this.snapshots[0];
     let next = this.snapshots[1];
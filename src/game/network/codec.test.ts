@@ -0,0 +1,189 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeInput, decodeReplay, decodeReplayHeader, decodeSnapshot, encodeInput, encodeReplay, encodeSnapshot } from './codec';
+import { BallSnapshot, InputPacket, PlayerSnapshot, ReplayHeader, WorldSnapshot } from './protocol';
+import { DEFAULT_RULESET } from '../rules';
+import { seededRandom } from '../runtime';
+
+// Values are drawn on the wire's grid (1cm, 1/100 stamina, 1/65536 turn, float32 clocks),
+// so a round trip has to give back exactly what went in
+const grid = (value: number, scale: number) => Math.round(value * scale) / scale;
+const angle = (turns: number) => (Math.round(turns * 65536) % 65536 / 65536) * Math.PI * 2;
+
+function player(random: () => number, i: number): PlayerSnapshot {
+  const vec = (range: number) => ({ x: grid(random() * range * 2 - range, 100), y: grid(random() * 2, 100), z: grid(random() * range * 2 - range, 100) });
+  return {
+    id: `player_${i}`,
+    team: i % 2 === 0 ? 'blue' : 'red',
+    pos: vec(25),
+    vel: vec(8),
+    rot: { y: angle(random()) },
+    state: 'alive',
+    stamina: grid(random() * 100, 100),
+    staminaDelay: 0,
+    holding: null,
+    blocking: false,
+    charge: 0,
+    lastInputSeq: Math.floor(random() * 1000)
+  };
+}
+
+function ball(random: () => number, id: number): BallSnapshot {
+  return {
+    id,
+    pos: { x: grid(random() * 40 - 20, 100), y: 0.35, z: grid(random() * 40 - 20, 100) },
+    vel: { x: 0, y: 0, z: 0 },
+    state: 'idle',
+    owner: null,
+    type: 'normal'
+  };
+}
+
+function world(seed: number, players = 8, balls = 6): WorldSnapshot {
+  const random = seededRandom(seed);
+  return {
+    tick: 100,
+    time: Math.fround(120.5),
+    timestamp: 1_700_000_000_123,
+    matchState: 'playing',
+    countdown: 0,
+    players: Array.from({ length: players }, (_, i) => player(random, i)),
+    balls: Array.from({ length: balls }, (_, i) => ball(random, i)),
+    events: []
+  };
+}
+
+// The next tick: everyone moves a little, one ball gets picked up and thrown
+function advance(snapshot: WorldSnapshot, random: () => number): WorldSnapshot {
+  const next: WorldSnapshot = structuredClone(snapshot);
+  next.tick += 2;
+  next.timestamp += 66;
+  next.time = Math.fround(next.time - 2 / 30);
+  next.players.forEach(p => {
+    p.pos.x = grid(p.pos.x + random() * 0.4 - 0.2, 100);
+    p.pos.z = grid(p.pos.z + random() * 0.4 - 0.2, 100);
+    p.rot.y = angle(p.rot.y / (Math.PI * 2) + random() * 0.02);
+    p.lastInputSeq += 2;
+  });
+  const b = next.balls[next.tick % next.balls.length];
+  b.state = 'thrown';
+  b.owner = next.players[0].id;
+  b.vel = { x: 0, y: grid(random() * 5, 100), z: 25 };
+  return next;
+}
+
+const input = (overrides: Partial<InputPacket> = {}): InputPacket => ({
+  seq: 77,
+  timestamp: 1_700_000_000_456,
+  move: { x: 0, z: 1 },
+  aim: { x: 0, y: 0, z: -1 },
+  sprint: true,
+  block: false,
+  throw: { active: true, charge: 1.5, curve: -1 },
+  catch: true,
+  ...overrides
+});
+
+describe('snapshots', () => {
+  it('round-trips a keyframe', () => {
+    const snapshot = world(1);
+    assert.deepEqual(decodeSnapshot(encodeSnapshot(snapshot, null), () => undefined), snapshot);
+  });
+
+  it('round-trips a delta against its baseline', () => {
+    const base = world(2);
+    const next = advance(base, seededRandom(3));
+    const decoded = decodeSnapshot(encodeSnapshot(next, base), tick => (tick === base.tick ? base : undefined));
+    assert.deepEqual(decoded, next);
+  });
+
+  it('sends next to nothing for an unchanged world', () => {
+    const base = world(4);
+    const same = { ...structuredClone(base), tick: base.tick + 2 };
+    const bytes = encodeSnapshot(same, base);
+    assert.ok(bytes.length < encodeSnapshot(base, null).length / 5);
+    assert.deepEqual(decodeSnapshot(bytes, () => base), same);
+  });
+
+  it('carries players and balls that are not in the baseline', () => {
+    const base = world(5, 2, 1);
+    const next = structuredClone(world(5, 3, 2));
+    next.tick = base.tick + 2;
+    next.balls[1].owner = 'someone_gone'; // Owner left the match since
+    next.balls[1].state = 'thrown';
+    assert.deepEqual(decodeSnapshot(encodeSnapshot(next, base), () => base), next);
+  });
+
+  it('carries events', () => {
+    const snapshot = world(6);
+    snapshot.events = [{ type: 'respawn', data: { playerId: 'player_1' }, seq: 3, timestamp: 5 }];
+    assert.deepEqual(decodeSnapshot(encodeSnapshot(snapshot, null), () => undefined).events, snapshot.events);
+  });
+
+  it('refuses a delta whose baseline is gone', () => {
+    const base = world(7);
+    assert.throws(() => decodeSnapshot(encodeSnapshot(advance(base, seededRandom(1)), base), () => undefined), /Missing baseline/);
+  });
+
+  it('is over ten times smaller than JSON over a match', (t) => {
+    const random = seededRandom(8);
+    let json = 0;
+    let binary = 0;
+    let previous: WorldSnapshot | null = null;
+    let current = world(9);
+    // A minute at the snapshot rate, keyframe every 30 like the server
+    for (let i = 0; i < 900; i++) {
+      json += new TextEncoder().encode(JSON.stringify(current)).length;
+      binary += encodeSnapshot(current, i % 30 === 0 ? null : previous).length;
+      previous = current;
+      current = advance(current, random);
+    }
+    t.diagnostic(`JSON ${json} B, binary ${binary} B, ${(json / binary).toFixed(1)}x smaller`);
+    assert.ok(json / binary > 10);
+  });
+});
+
+describe('inputs', () => {
+  it('round-trips an input', () => {
+    assert.deepEqual(decodeInput(encodeInput(input())), input());
+  });
+
+  it('quantizes axes and clamps them into range', () => {
+    const decoded = decodeInput(encodeInput(input({ move: { x: 5, z: -0.5 }, throw: { active: false, charge: 0.333, curve: 3 } })));
+    assert.equal(decoded.move.x, 1);
+    assert.ok(Math.abs(decoded.move.z + 0.5) < 1 / 127);
+    assert.ok(Math.abs(decoded.throw.charge - 0.333) < 1 / 80);
+    assert.equal(decoded.throw.curve, 1);
+  });
+
+  it('fits in 23 bytes and rejects any other size', () => {
+    const bytes = encodeInput(input());
+    assert.equal(bytes.length, 23);
+    assert.throws(() => decodeInput(bytes.slice(0, 22)));
+    assert.throws(() => decodeInput(new Uint8Array(24)));
+  });
+});
+
+describe('replays', () => {
+  it('round-trips the header and every snapshot', () => {
+    const random = seededRandom(10);
+    const snapshots = [world(11)];
+    for (let i = 0; i < 200; i++) snapshots.push(advance(snapshots[i], random));
+    const header: ReplayHeader = {
+      matchId: 'match_1',
+      mode: 'casual',
+      ruleset: DEFAULT_RULESET,
+      recordedAt: snapshots[0].timestamp,
+      players: snapshots[0].players.map(p => ({ id: p.id, team: p.team })),
+      result: { matchId: 'match_1', mode: 'casual', winner: 'blue', reason: 'time', duration: 180, players: [] }
+    };
+
+    const data = encodeReplay(header, snapshots);
+    assert.deepEqual(decodeReplayHeader(data), header);
+    assert.deepEqual(decodeReplay(data), { header, snapshots });
+  });
+
+  it('refuses files that are not replays', () => {
+    assert.throws(() => decodeReplay(new Uint8Array(64)), /Not a replay/);
+  });
+});
@@ -0,0 +1,427 @@
+import { BallSnapshot, GameEvent, InputPacket, PlayerSnapshot, Replay, ReplayHeader, WorldSnapshot } from './protocol';
+
+// Binary wire format for snapshots and inputs, shared by the server and the client. Replay files reuse it.
+// Numbers are quantized to fixed point, and a snapshot can be a delta against an earlier one the
+// client acknowledged: each player or ball then only carries the fields that changed, flagged in a bitmask.
+// Comparisons happen on the quantized values, so a decoded delta rebuilds exactly what a keyframe would.
+
+const POSITION_SCALE = 100; // 1cm
+const VELOCITY_SCALE = 100;
+const STAMINA_SCALE = 100;
+const CHARGE_SCALE = 1000;
+const ANGLE_STEPS = 65536; // Full turn in a uint16
+const INPUT_AXIS_SCALE = 127;
+const INPUT_AIM_SCALE = 32767;
+const INPUT_CHARGE_SCALE = 80; // Up to 3 charge in a uint8
+
+// Snapshot header flags
+const KEYFRAME = 1 << 0;
+const HAS_EVENTS = 1 << 1;
+
+// Player field bits
+const P_NEW = 1 << 0; // Not in the baseline: id and every field follow
+const P_TEAM = 1 << 1;
+const P_POS = 1 << 2;
+const P_VEL = 1 << 3;
+const P_ROT = 1 << 4;
+const P_STATE = 1 << 5;
+const P_STAMINA = 1 << 6;
+const P_STAMINA_DELAY = 1 << 7;
+const P_HOLDING = 1 << 8;
+const P_BLOCKING = 1 << 9;
+const P_CHARGE = 1 << 10;
+const P_INPUT_SEQ = 1 << 11;
+const P_ALL = (1 << 12) - 1;
+
+// Ball field bits
+const B_NEW = 1 << 0;
+const B_POS = 1 << 1;
+const B_VEL = 1 << 2;
+const B_STATE = 1 << 3;
+const B_OWNER = 1 << 4;
+const B_TYPE = 1 << 5;
+const B_ALL = (1 << 6) - 1;
+
+// Replay files: magic, format version, JSON header, then the snapshots, each a delta on the one before
+const REPLAY_MAGIC = 0x50445250; // 'PDRP'
+export const REPLAY_VERSION = 1;
+const REPLAY_KEYFRAME_INTERVAL = 150; // Snapshots; a damaged file recovers at the next one
+
+// Input flags
+const I_SPRINT = 1 << 0;
+const I_BLOCK = 1 << 1;
+const I_THROW = 1 << 2;
+const I_CATCH = 1 << 3;
+const INPUT_SIZE = 23; // Bytes; anything else is not one of ours
+
+const TEAMS: PlayerSnapshot['team'][] = ['blue', 'red'];
+const PLAYER_STATES: PlayerSnapshot['state'][] = ['alive', 'out', 'respawning'];
+const MATCH_STATES: WorldSnapshot['matchState'][] = ['warmup', 'playing', 'finished'];
+const BALL_STATES: BallSnapshot['state'][] = ['idle', 'held', 'thrown'];
+const BALL_TYPES: BallSnapshot['type'][] = ['normal', 'curve', 'lob'];
+
+const NO_OWNER = 0xff;
+const OWNER_BY_ID = 0xfe; // Owner isn't in the player list, its id follows
+
+type Vec = { x: number; y: number; z: number };
+
+class Writer {
+  private bytes = new Uint8Array(256);
+  private view = new DataView(this.bytes.buffer);
+  private length = 0;
+
+  private reserve(size: number) {
+    if (this.length + size <= this.bytes.length) return;
+    const grown = new Uint8Array(Math.max(this.bytes.length * 2, this.length + size));
+    grown.set(this.bytes);
+    this.bytes = grown;
+    this.view = new DataView(grown.buffer);
+  }
+
+  u8(value: number) { this.reserve(1); this.view.setUint8(this.length, value); this.length += 1; }
+  i8(value: number) { this.reserve(1); this.view.setInt8(this.length, value); this.length += 1; }
+  u16(value: number) { this.reserve(2); this.view.setUint16(this.length, value); this.length += 2; }
+  i16(value: number) { this.reserve(2); this.view.setInt16(this.length, value); this.length += 2; }
+  u32(value: number) { this.reserve(4); this.view.setUint32(this.length, value); this.length += 4; }
+  f32(value: number) { this.reserve(4); this.view.setFloat32(this.length, value); this.length += 4; }
+  f64(value: number) { this.reserve(8); this.view.setFloat64(this.length, value); this.length += 8; }
+
+  // Length-prefixed bytes, for nesting encoded data
+  blob(value: Uint8Array) {
+    this.u32(value.length);
+    this.reserve(value.length);
+    this.bytes.set(value, this.length);
+    this.length += value.length;
+  }
+
+  str(value: string) {
+    const encoded = new TextEncoder().encode(value);
+    this.u16(encoded.length);
+    this.reserve(encoded.length);
+    this.bytes.set(encoded, this.length);
+    this.length += encoded.length;
+  }
+
+  finish() {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+class Reader {
+  private view: DataView;
+  private offset = 0;
+
+  constructor(data: ArrayBuffer | ArrayBufferView) {
+    this.view = ArrayBuffer.isView(data)
+      ? new DataView(data.buffer, data.byteOffset, data.byteLength)
+      : new DataView(data);
+  }
+
+  u8() { const v = this.view.getUint8(this.offset); this.offset += 1; return v; }
+  i8() { const v = this.view.getInt8(this.offset); this.offset += 1; return v; }
+  u16() { const v = this.view.getUint16(this.offset); this.offset += 2; return v; }
+  i16() { const v = this.view.getInt16(this.offset); this.offset += 2; return v; }
+  u32() { const v = this.view.getUint32(this.offset); this.offset += 4; return v; }
+  f32() { const v = this.view.getFloat32(this.offset); this.offset += 4; return v; }
+  f64() { const v = this.view.getFloat64(this.offset); this.offset += 8; return v; }
+
+  blob() {
+    const length = this.u32();
+    const bytes = new Uint8Array(this.view.buffer, this.view.byteOffset + this.offset, length);
+    this.offset += length;
+    return bytes;
+  }
+
+  str() {
+    const length = this.u16();
+    const bytes = new Uint8Array(this.view.buffer, this.view.byteOffset + this.offset, length);
+    this.offset += length;
+    return new TextDecoder().decode(bytes);
+  }
+}
+
+// --- Quantization ---
+
+function toInt16(value: number, scale: number) {
+  return Math.max(-32768, Math.min(32767, Math.round(value * scale)));
+}
+
+function toUint16(value: number, scale: number) {
+  return Math.max(0, Math.min(65535, Math.round(value * scale)));
+}
+
+function toAngle(radians: number) {
+  const turns = radians / (Math.PI * 2);
+  return Math.round((turns - Math.floor(turns)) * ANGLE_STEPS) % ANGLE_STEPS;
+}
+
+function sameVec(a: Vec, b: Vec, scale: number) {
+  return toInt16(a.x, scale) === toInt16(b.x, scale)
+    && toInt16(a.y, scale) === toInt16(b.y, scale)
+    && toInt16(a.z, scale) === toInt16(b.z, scale);
+}
+
+function writeVec(w: Writer, v: Vec, scale: number) {
+  w.i16(toInt16(v.x, scale));
+  w.i16(toInt16(v.y, scale));
+  w.i16(toInt16(v.z, scale));
+}
+
+function readVec(r: Reader, scale: number): Vec {
+  return { x: r.i16() / scale, y: r.i16() / scale, z: r.i16() / scale };
+}
+
+// --- Snapshots ---
+
+// baseline: a snapshot the client has acknowledged, or null for a keyframe that stands on its own
+export function encodeSnapshot(snapshot: WorldSnapshot, baseline: WorldSnapshot | null): Uint8Array {
+  const w = new Writer();
+  w.u8((baseline ? 0 : KEYFRAME) | (snapshot.events.length > 0 ? HAS_EVENTS : 0));
+  w.u32(snapshot.tick);
+  if (baseline) w.u32(baseline.tick);
+  w.f64(snapshot.timestamp);
+  w.f32(snapshot.time);
+  w.f32(snapshot.countdown);
+  w.u8(MATCH_STATES.indexOf(snapshot.matchState));
+
+  const basePlayers = new Map<string, { index: number; player: PlayerSnapshot }>();
+  baseline?.players.forEach((player, index) => basePlayers.set(player.id, { index, player }));
+  w.u8(snapshot.players.length);
+  snapshot.players.forEach(p => {
+    const base = basePlayers.get(p.id);
+    writePlayer(w, p, base?.player ?? null, base?.index ?? 0);
+  });
+
+  const baseBalls = new Map<number, BallSnapshot>();
+  baseline?.balls.forEach(b => baseBalls.set(b.id, b));
+  const playerIndex = new Map(snapshot.players.map((p, i) => [p.id, i]));
+  w.u8(snapshot.balls.length);
+  snapshot.balls.forEach(b => writeBall(w, b, baseBalls.get(b.id) ?? null, playerIndex));
+
+  // Events are rare and varied, so they ride along as JSON
+  if (snapshot.events.length > 0) w.str(JSON.stringify(snapshot.events));
+
+  return w.finish();
+}
+
+// getBaseline returns an earlier decoded snapshot by tick; throws if a delta's baseline isn't there
+export function decodeSnapshot(data: ArrayBuffer | ArrayBufferView, getBaseline: (tick: number) => WorldSnapshot | undefined): WorldSnapshot {
+  const r = new Reader(data);
+  const flags = r.u8();
+  const tick = r.u32();
+  let baseline: WorldSnapshot | null = null;
+  if (!(flags & KEYFRAME)) {
+    const baseTick = r.u32();
+    baseline = getBaseline(baseTick) ?? null;
+    if (!baseline) throw new Error(`Missing baseline snapshot ${baseTick}`);
+  }
+  const timestamp = r.f64();
+  const time = r.f32();
+  const countdown = r.f32();
+  const matchState = MATCH_STATES[r.u8()];
+
+  const players: PlayerSnapshot[] = [];
+  const playerCount = r.u8();
+  for (let i = 0; i < playerCount; i++) players.push(readPlayer(r, baseline));
+
+  const balls: BallSnapshot[] = [];
+  const baseBalls = new Map<number, BallSnapshot>();
+  baseline?.balls.forEach(b => baseBalls.set(b.id, b));
+  const ballCount = r.u8();
+  for (let i = 0; i < ballCount; i++) balls.push(readBall(r, baseBalls, players));
+
+  const events: GameEvent[] = flags & HAS_EVENTS ? JSON.parse(r.str()) : [];
+
+  return { tick, time, timestamp, matchState, countdown, players, balls, events };
+}
+
+function writePlayer(w: Writer, p: PlayerSnapshot, base: PlayerSnapshot | null, baseIndex: number) {
+  let mask = P_ALL;
+  if (base) {
+    mask = 0;
+    if (p.team !== base.team) mask |= P_TEAM;
+    if (!sameVec(p.pos, base.pos, POSITION_SCALE)) mask |= P_POS;
+    if (!sameVec(p.vel, base.vel, VELOCITY_SCALE)) mask |= P_VEL;
+    if (toAngle(p.rot.y) !== toAngle(base.rot.y)) mask |= P_ROT;
+    if (p.state !== base.state) mask |= P_STATE;
+    if (toUint16(p.stamina, STAMINA_SCALE) !== toUint16(base.stamina, STAMINA_SCALE)) mask |= P_STAMINA;
+    if (toUint16(p.staminaDelay, STAMINA_SCALE) !== toUint16(base.staminaDelay, STAMINA_SCALE)) mask |= P_STAMINA_DELAY;
+    if (p.holding !== base.holding) mask |= P_HOLDING;
+    if (p.blocking !== base.blocking) mask |= P_BLOCKING;
+    if (toUint16(p.charge, CHARGE_SCALE) !== toUint16(base.charge, CHARGE_SCALE)) mask |= P_CHARGE;
+    if (p.lastInputSeq !== base.lastInputSeq) mask |= P_INPUT_SEQ;
+  }
+
+  w.u16(mask);
+  if (mask & P_NEW) w.str(p.id);
+  else w.u8(baseIndex);
+  if (mask & P_TEAM) w.u8(TEAMS.indexOf(p.team));
+  if (mask & P_POS) writeVec(w, p.pos, POSITION_SCALE);
+  if (mask & P_VEL) writeVec(w, p.vel, VELOCITY_SCALE);
+  if (mask & P_ROT) w.u16(toAngle(p.rot.y));
+  if (mask & P_STATE) w.u8(PLAYER_STATES.indexOf(p.state));
+  if (mask & P_STAMINA) w.u16(toUint16(p.stamina, STAMINA_SCALE));
+  if (mask & P_STAMINA_DELAY) w.u16(toUint16(p.staminaDelay, STAMINA_SCALE));
+  if (mask & P_HOLDING) w.i16(p.holding ?? -1);
+  if (mask & P_BLOCKING) w.u8(p.blocking ? 1 : 0);
+  if (mask & P_CHARGE) w.u16(toUint16(p.charge, CHARGE_SCALE));
+  if (mask & P_INPUT_SEQ) w.u32(p.lastInputSeq);
+}
+
+function readPlayer(r: Reader, baseline: WorldSnapshot | null): PlayerSnapshot {
+  const mask = r.u16();
+  let base: PlayerSnapshot | undefined;
+  let id: string;
+  if (mask & P_NEW) {
+    id = r.str();
+  } else {
+    base = baseline?.players[r.u8()];
+    if (!base) throw new Error('Delta refers to a player missing from the baseline');
+    id = base.id;
+  }
+
+  // Same field order as writePlayer
+  const team = mask & P_TEAM ? TEAMS[r.u8()] : base!.team;
+  const pos = mask & P_POS ? readVec(r, POSITION_SCALE) : { ...base!.pos };
+  const vel = mask & P_VEL ? readVec(r, VELOCITY_SCALE) : { ...base!.vel };
+  const rot = { y: mask & P_ROT ? (r.u16() / ANGLE_STEPS) * Math.PI * 2 : base!.rot.y };
+  const state = mask & P_STATE ? PLAYER_STATES[r.u8()] : base!.state;
+  const stamina = mask & P_STAMINA ? r.u16() / STAMINA_SCALE : base!.stamina;
+  const staminaDelay = mask & P_STAMINA_DELAY ? r.u16() / STAMINA_SCALE : base!.staminaDelay;
+  let holding = base?.holding ?? null;
+  if (mask & P_HOLDING) {
+    const value = r.i16();
+    holding = value < 0 ? null : value;
+  }
+  const blocking = mask & P_BLOCKING ? r.u8() === 1 : base!.blocking;
+  const charge = mask & P_CHARGE ? r.u16() / CHARGE_SCALE : base!.charge;
+  const lastInputSeq = mask & P_INPUT_SEQ ? r.u32() : base!.lastInputSeq;
+
+  return { id, team, pos, vel, rot, state, stamina, staminaDelay, holding, blocking, charge, lastInputSeq };
+}
+
+function writeBall(w: Writer, b: BallSnapshot, base: BallSnapshot | null, playerIndex: Map<string, number>) {
+  let mask = B_ALL;
+  if (base) {
+    mask = 0;
+    if (!sameVec(b.pos, base.pos, POSITION_SCALE)) mask |= B_POS;
+    if (!sameVec(b.vel, base.vel, VELOCITY_SCALE)) mask |= B_VEL;
+    if (b.state !== base.state) mask |= B_STATE;
+    if (b.owner !== base.owner) mask |= B_OWNER;
+    if (b.type !== base.type) mask |= B_TYPE;
+  }
+
+  w.u8(mask);
+  w.u16(b.id);
+  if (mask & B_POS) writeVec(w, b.pos, POSITION_SCALE);
+  if (mask & B_VEL) writeVec(w, b.vel, VELOCITY_SCALE);
+  if (mask & B_STATE) w.u8(BALL_STATES.indexOf(b.state));
+  if (mask & B_OWNER) {
+    const index = b.owner === null ? undefined : playerIndex.get(b.owner);
+    if (b.owner === null) {
+      w.u8(NO_OWNER);
+    } else if (index === undefined || index >= OWNER_BY_ID) {
+      w.u8(OWNER_BY_ID);
+      w.str(b.owner);
+    } else {
+      w.u8(index);
+    }
+  }
+  if (mask & B_TYPE) w.u8(BALL_TYPES.indexOf(b.type));
+}
+
+function readBall(r: Reader, baseBalls: Map<number, BallSnapshot>, players: PlayerSnapshot[]): BallSnapshot {
+  const mask = r.u8();
+  const id = r.u16();
+  const base = baseBalls.get(id);
+  if (!(mask & B_NEW) && !base) throw new Error(`Delta refers to ball ${id} missing from the baseline`);
+
+  const pos = mask & B_POS ? readVec(r, POSITION_SCALE) : { ...base!.pos };
+  const vel = mask & B_VEL ? readVec(r, VELOCITY_SCALE) : { ...base!.vel };
+  const state = mask & B_STATE ? BALL_STATES[r.u8()] : base!.state;
+  let owner = base?.owner ?? null;
+  if (mask & B_OWNER) {
+    const index = r.u8();
+    owner = index === NO_OWNER ? null : index === OWNER_BY_ID ? r.str() : players[index].id;
+  }
+  const type = mask & B_TYPE ? BALL_TYPES[r.u8()] : base!.type;
+  return { id, pos, vel, state, owner, type };
+}
+
+// --- Inputs ---
+
+export function encodeInput(packet: InputPacket): Uint8Array {
+  const w = new Writer();
+  w.u32(packet.seq);
+  w.f64(packet.timestamp);
+  w.i8(Math.round(Math.max(-1, Math.min(1, packet.move.x)) * INPUT_AXIS_SCALE));
+  w.i8(Math.round(Math.max(-1, Math.min(1, packet.move.z)) * INPUT_AXIS_SCALE));
+  w.i16(toInt16(packet.aim.x, INPUT_AIM_SCALE));
+  w.i16(toInt16(packet.aim.y, INPUT_AIM_SCALE));
+  w.i16(toInt16(packet.aim.z, INPUT_AIM_SCALE));
+  w.u8((packet.sprint ? I_SPRINT : 0) | (packet.block ? I_BLOCK : 0) | (packet.throw.active ? I_THROW : 0) | (packet.catch ? I_CATCH : 0));
+  w.u8(Math.max(0, Math.min(255, Math.round(packet.throw.charge * INPUT_CHARGE_SCALE))));
+  w.i8(Math.round(Math.max(-1, Math.min(1, packet.throw.curve)) * INPUT_AXIS_SCALE));
+  return w.finish();
+}
+
+export function decodeInput(data: ArrayBuffer | ArrayBufferView): InputPacket {
+  if (data.byteLength !== INPUT_SIZE) throw new Error(`Input packet is ${data.byteLength} bytes, expected ${INPUT_SIZE}`);
+  const r = new Reader(data);
+  const seq = r.u32();
+  const timestamp = r.f64();
+  const move = { x: r.i8() / INPUT_AXIS_SCALE, z: r.i8() / INPUT_AXIS_SCALE };
+  const aim = { x: r.i16() / INPUT_AIM_SCALE, y: r.i16() / INPUT_AIM_SCALE, z: r.i16() / INPUT_AIM_SCALE };
+  const flags = r.u8();
+  const charge = r.u8() / INPUT_CHARGE_SCALE;
+  const curve = r.i8() / INPUT_AXIS_SCALE;
+  return {
+    seq,
+    timestamp,
+    move,
+    aim,
+    sprint: !!(flags & I_SPRINT),
+    block: !!(flags & I_BLOCK),
+    throw: { active: !!(flags & I_THROW), charge, curve },
+    catch: !!(flags & I_CATCH)
+  };
+}
+
+// --- Replays ---
+
+export function encodeReplay(header: ReplayHeader, snapshots: WorldSnapshot[]): Uint8Array {
+  const w = new Writer();
+  w.u32(REPLAY_MAGIC);
+  w.u16(REPLAY_VERSION);
+  w.blob(new TextEncoder().encode(JSON.stringify(header)));
+  w.u32(snapshots.length);
+  snapshots.forEach((snapshot, i) => {
+    const baseline = i % REPLAY_KEYFRAME_INTERVAL === 0 ? null : snapshots[i - 1];
+    w.blob(encodeSnapshot(snapshot, baseline));
+  });
+  return w.finish();
+}
+
+function readReplayHeader(r: Reader): ReplayHeader {
+  if (r.u32() !== REPLAY_MAGIC) throw new Error('Not a replay file');
+  const version = r.u16();
+  if (version !== REPLAY_VERSION) throw new Error(`Unsupported replay version ${version}`);
+  return JSON.parse(new TextDecoder().decode(r.blob()));
+}
+
+// Just the header, without decoding the snapshots
+export function decodeReplayHeader(data: ArrayBuffer | ArrayBufferView): ReplayHeader {
+  return readReplayHeader(new Reader(data));
+}
+
+export function decodeReplay(data: ArrayBuffer | ArrayBufferView): Replay {
+  const r = new Reader(data);
+  const header = readReplayHeader(r);
+  const snapshots: WorldSnapshot[] = [];
+  const count = r.u32();
+  for (let i = 0; i < count; i++) {
+    const previous = snapshots[snapshots.length - 1];
+    snapshots.push(decodeSnapshot(r.blob(), tick => previous?.tick === tick ? previous : undefined));
+  }
+  return { header, snapshots };
+}
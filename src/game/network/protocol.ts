@@ -1,7 +1,10 @@
+import { Ruleset, RulesetPreset } from '../rules';
+
+// One packet per simulation tick; the server applies each with TICK_DT
 export interface InputPacket {
-  seq: number;
+  seq: number; // Starts at 1
   timestamp: number;
-  move: { x: number; z: number };
+  move: { x: number; z: number }; // World-space wish direction, length <= 1
   aim: { x: number; y: number; z: number }; // Normalized direction vector
   sprint: boolean;
   block: boolean;
@@ -21,9 +24,11 @@ export interface PlayerSnapshot {
   rot: { y: number };
   state: 'alive' | 'out' | 'respawning';
   stamina: number;
+  staminaDelay: number; // Seconds until stamina regenerates
   holding: number | null; // Ball ID
   blocking: boolean;
   charge: number;
+  lastInputSeq: number; // Last input applied, for client reconciliation
 }
 
 export interface BallSnapshot {
@@ -46,20 +51,235 @@ export interface WorldSnapshot {
   events: GameEvent[];
 }
 
-export interface GameEvent {
-  type: 'elimination' | 'catch' | 'respawn' | 'win';
-  data: any;
+export type FoulEvent =
+  | { kind: 'line'; playerId: string } // Stepped over the center line
+  | { kind: 'pickup'; playerId: string; ballId: number } // Reached for a ball on the other half
+  | { kind: 'hold'; playerId: string; ballId: number } // Held one ball past holdTimeout
+  | { kind: 'shotClock'; team: TeamId }; // Sat on too many balls for too long
+
+export type GameEventBody =
+  | { type: 'elimination'; data: { playerId: string; by: string | null } } // by: thrower id, 'foul' or 'disconnect'
+  | { type: 'catch'; data: { playerId: string; ballId: number; throwerId: string | null } }
+  | { type: 'respawn'; data: { playerId: string } }
+  | { type: 'block'; data: { playerId: string; ballId: number; by: string | null; broken: boolean } }
+  | { type: 'foul'; data: FoulEvent }
+  | { type: 'holdWarning'; data: { playerId: string; ballId: number; secondsLeft: number } }
+  | { type: 'shotClock'; data: { team: TeamId; state: 'started'; secondsLeft: number } | { team: TeamId; state: 'cleared' } }
+  | { type: 'win'; data: MatchResult };
+
+// Events are numbered per match and resent with every snapshot until the client acknowledges one that carried them
+export type GameEvent = GameEventBody & {
+  seq: number;
   timestamp: number;
+};
+
+export type TeamId = 'blue' | 'red';
+export type MatchMode = 'casual' | 'ranked' | 'custom';
+
+export interface PlayerMatchStats {
+  id: string;
+  team: TeamId;
+  eliminations: number;
+  catches: number;
+  throws: number;
+  survived: boolean;
+}
+
+export interface MatchResult {
+  matchId: string;
+  mode: MatchMode;
+  winner: TeamId | 'draw';
+  reason: 'elimination' | 'time';
+  duration: number; // Seconds of play (warmup excluded)
+  players: PlayerMatchStats[];
+}
+
+// A finished match as recorded by the server: every snapshot it broadcast, with all of its events
+export interface ReplayHeader {
+  matchId: string;
+  mode: MatchMode;
+  ruleset: Ruleset;
+  recordedAt: number; // Server timestamp of the first snapshot
+  players: { id: string; team: TeamId }[];
+  result: MatchResult;
+}
+
+export interface Replay {
+  header: ReplayHeader;
+  snapshots: WorldSnapshot[];
+}
+
+// One entry of the replay list
+export interface ReplaySummary {
+  matchId: string;
+  mode: MatchMode;
+  recordedAt: number;
+  duration: number; // Seconds of play
+  winner: TeamId | 'draw';
+  playerCount: number;
+  size: number; // Bytes
+}
+
+// Public HTTP API, for server browsers and monitoring
+
+export interface LiveMatchSummary {
+  matchId: string;
+  mode: MatchMode;
+  preset: RulesetPreset;
+  state: 'warmup' | 'playing' | 'finished';
+  time: number; // Seconds left of the warmup, or on the match clock once playing
+  score: Record<TeamId, number>; // Eliminations
+  alive: Record<TeamId, number>;
+  players: number; // Bots included
+  bots: number;
+  spectators: number;
+  startedAt: number;
+}
+
+export interface LiveMatchPlayer {
+  id: string;
+  team: TeamId;
+  state: 'alive' | 'out' | 'respawning';
+  bot: boolean; // A bot, or a bot holding the slot of a dropped player
+  eliminations: number;
+  catches: number;
+  throws: number;
+}
+
+export interface LiveMatchDetails extends LiveMatchSummary {
+  ruleset: Ruleset;
+  roster: LiveMatchPlayer[];
+  spectatorSlots: number; // Still free
+  winner: TeamId | 'draw' | null;
+}
+
+export interface QueueSummary {
+  mode: 'casual' | 'ranked';
+  teamSize: number;
+  players: number;
+  groups: number; // Solo players and parties
+  longestWait: number | null; // Seconds
+  averageWait: number | null; // Seconds, over recently matched players
+  botFillAfter: number | null; // Seconds
+}
+
+export interface ServerHealth {
+  uptime: number; // Seconds
+  connectedSockets: number;
+  matches: number;
+  tickBudget: number; // ms a tick may take at TICK_RATE
+  tickTime: { samples: number; p50: number; p95: number; p99: number; max: number } | null; // ms, recent ticks of every match
+  memory: { rss: number; heapUsed: number; heapTotal: number }; // Bytes
+}
+
+export interface PlayerProfile {
+  id: string;
+  username: string;
+  level: number;
+  xp: number;
+  nextXp: number;
+  rank: string; // Tier and division label, e.g. 'Gold II'
+  rating: number;
+  placementGamesLeft: number;
+  coins: number;
+  gems: number;
+}
+
+export interface SessionPacket {
+  token: string; // Persist and send back in the socket handshake to keep the same identity
+  profile: PlayerProfile;
+}
+
+export interface QueueStatus {
+  mode: 'casual' | 'ranked';
+  position: number; // 1-based, longest waiting first
+  queueSize: number;
+  playersNeeded: number; // Players per match (both teams)
+  waited: number; // Seconds
+  estimatedWait: number | null; // Seconds left, null until there is history to estimate from
+}
+
+export interface PartyMember {
+  id: string; // Socket id
+  username: string;
+  rank: string;
+}
+
+export interface PartyState {
+  code: string; // Share with friends to join
+  leaderId: string;
+  members: PartyMember[];
+}
+
+export interface LobbySettings {
+  preset: RulesetPreset; // Base rules; the fields below override it
+  teamSize: 1 | 2 | 4;
+  matchTime: number; // Seconds
+  ballCount: number;
+  warmup: number; // Seconds
+  catchRevives: boolean;
+}
+
+export interface LobbyPlayer {
+  id: string; // Socket id
+  username: string;
+  team: TeamId | null; // null = not picked yet
+}
+
+export interface LobbyState {
+  code: string;
+  hostId: string;
+  state: 'open' | 'in_match';
+  settings: LobbySettings;
+  players: LobbyPlayer[];
 }
 
 export interface InitPacket {
   playerId: string;
   matchId: string;
-  mode: 'casual' | 'ranked';
+  mode: MatchMode;
+  rank: string;
+  ruleset: Ruleset;
   startTime: number;
   serverTime: number;
+  rejoined: boolean; // Back in a match after a dropped connection
+}
+
+// Sent instead of an InitPacket to someone watching a match without a slot in it
+export interface SpectatePacket {
+  matchId: string;
+  mode: MatchMode;
+  ruleset: Ruleset;
+  serverTime: number;
+  delay: number; // ms the stream runs behind the match
+}
+
+// The server pings each client about once a second. The client answers right away, so the server
+// measures the round trip itself; the ping carries the results back for the clock and the HUD.
+export interface PingPacket {
+  id: number;
+  serverTime: number;
+  rtt: number | null; // Smoothed round trip in ms, null until the first pong
+  loss: number; // Share of recent pings that went unanswered, 0 to 1
+}
+
+export interface PongPacket {
+  id: number;
+  interpolationDelay: number; // How far in the past the client currently renders, for lag compensation
+}
+
+export interface ConnectionStats {
+  rtt: number | null;
+  jitter: number; // ms of variation in snapshot arrival
+  loss: number;
+  interpolationDelay: number;
 }
 
 export const TICK_RATE = 30;
 export const TICK_DT = 1 / TICK_RATE;
+export const INTERPOLATION_DELAY = 100; // Clients render remote entities this many ms in the past, until jitter is measured
+export const MIN_INTERPOLATION_DELAY = 80;
+export const MAX_INTERPOLATION_DELAY = 250;
 export const SNAPSHOT_RATE = 15; // Send every 2 ticks
+// Sent snapshots the server keeps as delta baselines; clients keep at least as many, so any baseline it picks is still there
+export const SNAPSHOT_HISTORY = 32;
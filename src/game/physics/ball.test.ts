@@ -0,0 +1,103 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BALL, BallBody, predictImpact, stepBall, sweptHit } from './ball';
+import { computeThrow } from './throw';
+import { DEFAULT_RULESET } from '../rules';
+import { TICK_DT } from '../network/protocol';
+import { runFixedSteps, seededRandom } from '../runtime';
+
+// A batch of throws drawn from the seed: normal, curve and lob, from all over the court
+function throws(seed: number, count: number): BallBody[] {
+  const random = seededRandom(seed);
+  return Array.from({ length: count }, () => {
+    const aim = { x: random() * 2 - 1, y: random() - 0.3, z: random() * 2 - 1 };
+    const length = Math.sqrt(aim.x * aim.x + aim.y * aim.y + aim.z * aim.z);
+    const launch = computeThrow({ x: aim.x / length, y: aim.y / length, z: aim.z / length }, random() * 2, random() * 2 - 1, DEFAULT_RULESET);
+    return {
+      pos: { x: random() * 40 - 20, y: 1.6, z: random() * 40 - 20 },
+      vel: launch.velocity,
+      type: launch.type,
+      curveFactor: launch.curveFactor
+    };
+  });
+}
+
+// Plays the balls through `frames` of frame time, stepping them at the tick rate
+function fly(balls: BallBody[], frames: number[]) {
+  let accumulator = 0;
+  frames.forEach(delta => {
+    accumulator = runFixedSteps(accumulator, delta, TICK_DT, () => balls.forEach(ball => stepBall(ball, TICK_DT, true)));
+  });
+  return balls;
+}
+
+describe('stepBall', () => {
+  it('gives the same flights for the same seed', () => {
+    const frames = Array(90).fill(TICK_DT);
+    assert.deepEqual(fly(throws(9, 50), frames), fly(throws(9, 50), frames));
+  });
+
+  it('ends in the same state whether stepped in one batch or split across frames', () => {
+    const ticks = 120;
+    const random = seededRandom(11);
+    const frames: number[] = [];
+    let left = ticks * TICK_DT;
+    while (left > 0) {
+      const delta = Math.min(left, random() * 0.04);
+      frames.push(delta);
+      left -= delta;
+    }
+
+    const batch = fly(throws(5, 50), [ticks * TICK_DT]);
+    assert.deepEqual(fly(throws(5, 50), frames), batch);
+    assert.deepEqual(fly(throws(5, 50), Array(ticks * 4).fill(TICK_DT / 4)), batch);
+  });
+
+  it('falls under gravity and comes to rest on the floor', () => {
+    const ball: BallBody = { pos: { x: 0, y: 3, z: 0 }, vel: { x: 0, y: 0, z: 0 }, type: 'normal', curveFactor: 0 };
+    let bounced = false;
+    for (let i = 0; i < 300; i++) bounced = stepBall(ball, TICK_DT, false).hitFloor || bounced;
+    assert.ok(bounced);
+    assert.equal(ball.pos.y, BALL.floorY);
+    assert.equal(ball.vel.y, 0);
+  });
+
+  it('bounces off the walls and stays in the arena', () => {
+    const ball: BallBody = { pos: { x: 0, y: 1, z: 0 }, vel: { x: 60, y: 0, z: 0 }, type: 'normal', curveFactor: 0 };
+    let hitWall = false;
+    for (let i = 0; i < 60; i++) {
+      hitWall = stepBall(ball, TICK_DT, false).hitWall || hitWall;
+      assert.ok(Math.abs(ball.pos.x) <= BALL.wallLimit);
+    }
+    assert.ok(hitWall);
+  });
+
+  it('only curves a live ball, and keeps its speed while curving', () => {
+    const start = (): BallBody => ({ pos: { x: 0, y: 1.5, z: 0 }, vel: { x: 0, y: 0, z: 30 }, type: 'curve', curveFactor: 2 });
+    const live = start();
+    const dead = start();
+    stepBall(live, TICK_DT, true);
+    stepBall(dead, TICK_DT, false);
+    assert.notEqual(live.vel.x, 0);
+    assert.equal(dead.vel.x, 0);
+    const speed = Math.sqrt(live.vel.x ** 2 + live.vel.z ** 2);
+    assert.ok(Math.abs(speed - 30) < 1);
+  });
+});
+
+describe('sweptHit', () => {
+  it('catches a fast ball that passes through the target between steps', () => {
+    const target = { x: 0, y: 1, z: 0 };
+    assert.ok(sweptHit({ x: 0, y: 1, z: -3 }, { x: 0, y: 1, z: 3 }, target, 0.5));
+    assert.ok(!sweptHit({ x: 2, y: 1, z: -3 }, { x: 2, y: 1, z: 3 }, target, 0.5));
+  });
+});
+
+describe('predictImpact', () => {
+  it('finds the time to impact of a straight throw', () => {
+    const ball: BallBody = { pos: { x: 0, y: 1.5, z: 0 }, vel: { x: 0, y: 0, z: 30 }, type: 'normal', curveFactor: 0 };
+    const time = predictImpact(ball, { x: 0, y: 1.4, z: 9 }, TICK_DT, 2, 0.6);
+    assert.ok(time !== null && Math.abs(time - 0.3) < 0.05);
+    assert.equal(ball.pos.z, 0); // The ball itself doesn't move
+  });
+});
@@ -0,0 +1,155 @@
+import { ARENA_SIZE } from '../constants';
+
+// Ball physics shared by the server, offline play and the bots.
+// Plain objects only, so it runs without a three.js scene. Step it with a fixed dt (TICK_DT)
+// and the same throw gives the same flight everywhere.
+
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export type BallType = 'normal' | 'fast' | 'curve' | 'lob';
+
+export interface BallBody {
+  pos: Vec3;
+  vel: Vec3;
+  type: BallType;
+  curveFactor: number; // -1 to 1 from the player, bots may go a bit further
+}
+
+export interface BallStepResult {
+  from: Vec3; // Position before the step, for swept hit tests
+  hitFloor: boolean;
+  hitWall: boolean;
+  outOfBounds: boolean;
+}
+
+export const BALL = {
+  radius: 0.35,
+  floorY: 0.35, // Ball center when resting on the floor
+  gravity: 15,
+  lobGravity: 8,
+  bounce: 0.6, // Velocity kept when bouncing off floor or walls
+  groundFriction: 0.95, // Horizontal velocity kept per 1/60s on the floor
+  restSpeed: 1.0, // Vertical bounces slower than this stop
+  stopSpeed: 0.1, // Horizontal rolling slower than this stops
+  curveStrength: 35,
+  curveFadeSpeed: 60, // Curve loses its bite as speed approaches this
+  minCurveFactor: 0.2,
+  wallLimit: ARENA_SIZE / 2 - 0.5,
+  outOfBoundsMargin: 5,
+  respawnPos: { x: 0, y: 5, z: 0 } // Lost balls drop back in from above center court
+};
+
+// Advances a ball by dt. `live` is true while a throw can still hit someone: only live balls curve or float.
+export function stepBall(body: BallBody, dt: number, live: boolean): BallStepResult {
+  const from = { ...body.pos };
+  const result: BallStepResult = { from, hitFloor: false, hitWall: false, outOfBounds: false };
+
+  if (live && body.type === 'curve') applyCurve(body, dt);
+
+  body.pos.x += body.vel.x * dt;
+  body.pos.y += body.vel.y * dt;
+  body.pos.z += body.vel.z * dt;
+
+  if (body.pos.y > BALL.floorY) {
+    body.vel.y -= (live && body.type === 'lob' ? BALL.lobGravity : BALL.gravity) * dt;
+  }
+
+  // Floor collision & Bouncing
+  if (body.pos.y < BALL.floorY) {
+    body.pos.y = BALL.floorY;
+    body.vel.y *= -BALL.bounce;
+
+    const friction = Math.pow(BALL.groundFriction, dt * 60);
+    body.vel.x *= friction;
+    body.vel.z *= friction;
+
+    if (Math.abs(body.vel.y) < BALL.restSpeed) body.vel.y = 0;
+    if (Math.abs(body.vel.x) < BALL.stopSpeed) body.vel.x = 0;
+    if (Math.abs(body.vel.z) < BALL.stopSpeed) body.vel.z = 0;
+    result.hitFloor = true;
+  }
+
+  const bounds = ARENA_SIZE / 2 + BALL.outOfBoundsMargin;
+  if (Math.abs(body.pos.x) > bounds || Math.abs(body.pos.z) > bounds || body.pos.y < -BALL.outOfBoundsMargin) {
+    body.pos.x = BALL.respawnPos.x;
+    body.pos.y = BALL.respawnPos.y;
+    body.pos.z = BALL.respawnPos.z;
+    body.vel.x = body.vel.y = body.vel.z = 0;
+    result.outOfBounds = true;
+    return result;
+  }
+
+  // Wall collision & Bouncing
+  if (Math.abs(body.pos.x) > BALL.wallLimit) {
+    body.pos.x = Math.sign(body.pos.x) * BALL.wallLimit;
+    body.vel.x *= -BALL.bounce;
+    result.hitWall = true;
+  }
+  if (Math.abs(body.pos.z) > BALL.wallLimit) {
+    body.pos.z = Math.sign(body.pos.z) * BALL.wallLimit;
+    body.vel.z *= -BALL.bounce;
+    result.hitWall = true;
+  }
+
+  return result;
+}
+
+// Sideways pull that keeps the speed unchanged; gentler the faster the ball flies
+function applyCurve(body: BallBody, dt: number) {
+  const speed = Math.sqrt(body.vel.x * body.vel.x + body.vel.y * body.vel.y + body.vel.z * body.vel.z);
+  const flat = Math.sqrt(body.vel.x * body.vel.x + body.vel.z * body.vel.z);
+  if (flat === 0) return;
+
+  // Right-hand side of the flight direction (forward x up)
+  const rightX = -body.vel.z / flat;
+  const rightZ = body.vel.x / flat;
+
+  const speedFactor = Math.max(BALL.minCurveFactor, 1.0 - speed / BALL.curveFadeSpeed);
+  const strength = body.curveFactor * BALL.curveStrength * speedFactor * dt;
+  body.vel.x += rightX * strength;
+  body.vel.z += rightZ * strength;
+
+  const newSpeed = Math.sqrt(body.vel.x * body.vel.x + body.vel.y * body.vel.y + body.vel.z * body.vel.z);
+  if (newSpeed === 0) return;
+  const scale = speed / newSpeed;
+  body.vel.x *= scale;
+  body.vel.y *= scale;
+  body.vel.z *= scale;
+}
+
+// Swept sphere test: did the ball pass within `radius` of `target` while moving from `from` to `to`?
+// Testing the whole segment keeps fast throws from tunnelling through players between steps.
+// Hits on players use the ruleset's hitRadius.
+export function sweptHit(from: Vec3, to: Vec3, target: Vec3, radius: number) {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const dz = to.z - from.z;
+  const lengthSq = dx * dx + dy * dy + dz * dz;
+
+  let t = 0;
+  if (lengthSq > 0) {
+    t = ((target.x - from.x) * dx + (target.y - from.y) * dy + (target.z - from.z) * dz) / lengthSq;
+    t = Math.max(0, Math.min(1, t));
+  }
+
+  const cx = from.x + dx * t - target.x;
+  const cy = from.y + dy * t - target.y;
+  const cz = from.z + dz * t - target.z;
+  return cx * cx + cy * cy + cz * cz < radius * radius;
+}
+
+// Simulates a live ball forward until it would hit `target` (held still) or drop dead.
+// Returns the time to impact in seconds, or null if it misses within maxTime.
+export function predictImpact(body: BallBody, target: Vec3, dt: number, maxTime: number, radius: number): number | null {
+  const ghost: BallBody = { pos: { ...body.pos }, vel: { ...body.vel }, type: body.type, curveFactor: body.curveFactor };
+  for (let time = dt; time <= maxTime; time += dt) {
+    const step = stepBall(ghost, dt, true);
+    if (sweptHit(step.from, ghost.pos, target, radius)) return time;
+    if (step.hitFloor || step.hitWall || step.outOfBounds) return null;
+  }
+  return null;
+}
@@ -0,0 +1,37 @@
+import { BALL, Vec3, sweptHit } from './ball';
+
+// Blocking with a held ball: a frontal shield that bats throws away while it drains stamina.
+// Shape matches the 'shield' hemisphere in createPlayerMesh.
+
+// Stamina drain while the shield is up comes from the ruleset
+export const BLOCK = {
+  shieldRadius: 1.5,
+  coneDot: 0, // Hemisphere: anything arriving from in front of the player
+  breakCharge: 1.2, // Throws charged at least this much smash through
+  deflectDamping: 0.5 // Speed kept by a deflected ball
+};
+
+// Did a ball moving from `from` to `to` meet the shield? center: chest height; facing: horizontal unit look direction.
+// The cone test uses where the ball came from, so a ball can't sneak past the rim in a single step.
+export function shieldCovers(center: Vec3, facing: { x: number; z: number }, from: Vec3, to: Vec3) {
+  if (!sweptHit(from, to, center, BLOCK.shieldRadius + BALL.radius)) return false;
+
+  const dx = from.x - center.x;
+  const dy = from.y - center.y;
+  const dz = from.z - center.z;
+  const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
+  if (dist === 0) return true;
+  return (dx * facing.x + dz * facing.z) / dist > BLOCK.coneDot;
+}
+
+// Mirrors the ball off the shield's front face and takes some pace off it
+export function deflect(vel: Vec3, facing: { x: number; z: number }) {
+  const into = vel.x * facing.x + vel.z * facing.z;
+  if (into < 0) {
+    vel.x -= 2 * into * facing.x;
+    vel.z -= 2 * into * facing.z;
+  }
+  vel.x *= BLOCK.deflectDamping;
+  vel.y *= BLOCK.deflectDamping;
+  vel.z *= BLOCK.deflectDamping;
+}
@@ -0,0 +1,99 @@
+import { ARENA_SIZE } from '../constants';
+import { Ruleset } from '../rules';
+
+// Player movement shared by the client (offline play and online prediction) and the server.
+// Pure and deterministic: same body + same inputs + same dt always gives the same result.
+
+export interface MovementBody {
+  pos: { x: number; z: number };
+  vel: { x: number; z: number };
+  stamina: number;
+  staminaDelay: number; // Seconds until stamina starts regenerating
+}
+
+export interface MovementInput {
+  move: { x: number; z: number }; // World-space wish direction, length <= 1
+  sprint: boolean;
+}
+
+export const MOVEMENT = {
+  walkAcceleration: 120,
+  sprintAcceleration: 220,
+  friction: 8,
+  sprintMinStamina: 5,
+  staminaRegen: 25, // Stamina per second
+  staminaRegenDelay: 2, // Seconds after the last stamina use
+  wallMargin: 2.0
+};
+
+export function useStamina(body: MovementBody, amount: number) {
+  body.stamina = Math.max(0, body.stamina - amount);
+  body.staminaDelay = MOVEMENT.staminaRegenDelay;
+}
+
+// Stamina costs, the stamina cap and the center line rules come from the match's ruleset
+export function stepMovement(body: MovementBody, input: MovementInput, team: 'blue' | 'red', dt: number, rules: Ruleset, maxStamina: number = rules.maxStamina) {
+  // Stamina Regeneration
+  if (body.staminaDelay > 0) {
+    body.staminaDelay = Math.max(0, body.staminaDelay - dt);
+  } else {
+    body.stamina = Math.min(maxStamina, body.stamina + MOVEMENT.staminaRegen * dt);
+  }
+
+  let moveX = input.move.x;
+  let moveZ = input.move.z;
+  const length = Math.sqrt(moveX * moveX + moveZ * moveZ);
+  if (length > 1) {
+    moveX /= length;
+    moveZ /= length;
+  }
+  const moving = length > 0.1;
+
+  // Sprinting Logic
+  let acceleration = MOVEMENT.walkAcceleration;
+  if (input.sprint && moving && body.stamina > MOVEMENT.sprintMinStamina) {
+    acceleration = MOVEMENT.sprintAcceleration;
+    useStamina(body, rules.sprintCost * dt);
+  }
+
+  // Friction, then acceleration along the wish direction
+  body.vel.x -= body.vel.x * MOVEMENT.friction * dt;
+  body.vel.z -= body.vel.z * MOVEMENT.friction * dt;
+  if (moving) {
+    body.vel.x += moveX * acceleration * dt;
+    body.vel.z += moveZ * acceleration * dt;
+  }
+
+  body.pos.x += body.vel.x * dt;
+  body.pos.z += body.vel.z * dt;
+
+  clampToCourt(body, team, rules.lineFault ? null : rules.centerLine);
+}
+
+// Arena bounds & Center line (Dodgeball Rules). A null centerLine only keeps players inside the walls,
+// for rulesets where crossing is a fault rather than impossible.
+export function clampToCourt(body: MovementBody, team: 'blue' | 'red', centerLine: number | null) {
+  const limit = ARENA_SIZE / 2 - MOVEMENT.wallMargin;
+
+  if (Math.abs(body.pos.x) > limit) {
+    body.pos.x = Math.sign(body.pos.x) * limit;
+    body.vel.x = 0;
+  }
+
+  const minZ = team === 'blue' || centerLine === null ? -limit : centerLine;
+  const maxZ = team === 'red' || centerLine === null ? limit : -centerLine;
+  if (body.pos.z < minZ || body.pos.z > maxZ) {
+    body.pos.z = Math.max(minZ, Math.min(maxZ, body.pos.z));
+    body.vel.z = 0;
+  }
+}
+
+// True once a player has stepped onto the line strip or beyond it into the other half
+export function crossedCenterLine(z: number, team: 'blue' | 'red', centerLine: number) {
+  return team === 'blue' ? z > -centerLine : z < centerLine;
+}
+
+// Is a point on the opposing team's side of the line? The strip itself (where balls start) counts as neutral.
+export function onOpposingSide(z: number, team: 'blue' | 'red', centerLine: number) {
+  return team === 'blue' ? z > centerLine : z < -centerLine;
+}
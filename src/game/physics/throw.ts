@@ -0,0 +1,61 @@
+import { Vec3 } from './ball';
+import { Ruleset } from '../rules';
+
+// How a throw input turns into a ball launch. The client predicts with it and the server
+// resolves with it, so a charged curve or a lob leaves the hand the same way in both places.
+
+export const THROW = {
+  basePower: 20,
+  chargePower: 30, // Extra speed per unit of charge
+  lobPitch: 0.4, // Aiming higher than this (aim.y) lobs the ball
+  lobPowerScale: 0.7,
+  lobLift: 20,
+  tilt: 0.15, // Flat throws get a small upward tilt so they don't dive into the floor
+  curveFactor: 2,
+  curveDeadzone: 0.5,
+  releaseDistance: 0.5 // In front of the eyes
+};
+
+export type ThrowType = 'normal' | 'curve' | 'lob';
+
+export interface ThrowLaunch {
+  type: ThrowType;
+  curveFactor: number;
+  velocity: Vec3;
+}
+
+// aim: normalized look direction; curve: -1 (left) to 1 (right)
+export function computeThrow(aim: Vec3, charge: number, curve: number, rules: Ruleset): ThrowLaunch {
+  const power = THROW.basePower + clampCharge(charge, rules) * THROW.chargePower;
+
+  if (aim.y > THROW.lobPitch) {
+    const lobPower = power * THROW.lobPowerScale;
+    return {
+      type: 'lob',
+      curveFactor: 0,
+      velocity: { x: aim.x * lobPower, y: aim.y * lobPower + THROW.lobLift, z: aim.z * lobPower }
+    };
+  }
+
+  const type: ThrowType = Math.abs(curve) > THROW.curveDeadzone ? 'curve' : 'normal';
+  const dir = normalize({ x: aim.x, y: aim.y + THROW.tilt, z: aim.z });
+  return {
+    type,
+    curveFactor: type === 'curve' ? Math.sign(curve) * THROW.curveFactor : 0,
+    velocity: { x: dir.x * power, y: dir.y * power, z: dir.z * power }
+  };
+}
+
+export function throwStaminaCost(charge: number, rules: Ruleset) {
+  return rules.throwStaminaCost + clampCharge(charge, rules) * rules.chargedThrowStaminaCost;
+}
+
+export function clampCharge(charge: number, rules: Ruleset) {
+  return Math.max(0, Math.min(rules.maxCharge, charge || 0));
+}
+
+function normalize(v: Vec3): Vec3 {
+  const length = Math.sqrt(v.x * v.x + v.y * v.y + v.z * v.z);
+  if (length === 0) return { x: 0, y: 0, z: 1 };
+  return { x: v.x / length, y: v.y / length, z: v.z / length };
+}
@@ -0,0 +1,149 @@
+// Every tunable rule of a match in one object. The server picks a ruleset per match and sends it in the
+// InitPacket; offline play and the bots read the same object, so prediction never disagrees with the server.
+
+export type RulesetPreset = 'Classic' | 'Competitive' | 'Arcade';
+
+export interface Ruleset {
+  preset: RulesetPreset; // The preset this ruleset started from
+  matchTime: number; // Seconds
+  warmup: number; // Seconds
+  ballCount: number;
+  catchRevives: boolean; // A catch knocks out the thrower and brings a teammate back
+  holdTimeout: number; // Seconds a player may hold one ball
+  holdWarning: number; // Seconds before holdTimeout that the holder is warned
+  holdPenalty: 'drop' | 'eliminate'; // What happens when holdTimeout runs out
+  shotClock: number; // Seconds a team holding more than half the balls has to throw; 0 turns it off
+  hitRadius: number; // Ball center to player center
+  maxCharge: number;
+  maxStamina: number;
+  sprintCost: number; // Stamina per second
+  chargeStaminaDrain: number; // Stamina per second while charging
+  blockStaminaDrain: number; // Stamina per second while blocking
+  throwStaminaCost: number;
+  chargedThrowStaminaCost: number; // Extra cost per unit of charge
+  centerLine: number; // Half-width of the strip neither team may enter
+  lineFault: boolean; // Stepping over the line is a fault that eliminates, instead of a wall
+}
+
+export const RULESET_PRESETS: Record<RulesetPreset, Ruleset> = {
+  Classic: {
+    preset: 'Classic',
+    matchTime: 180,
+    warmup: 5,
+    ballCount: 6,
+    catchRevives: true,
+    holdTimeout: 10,
+    holdWarning: 3,
+    holdPenalty: 'eliminate',
+    shotClock: 0,
+    hitRadius: 1.0,
+    maxCharge: 1.5,
+    maxStamina: 100,
+    sprintCost: 40,
+    chargeStaminaDrain: 20,
+    blockStaminaDrain: 30,
+    throwStaminaCost: 10,
+    chargedThrowStaminaCost: 20,
+    centerLine: 0.5,
+    lineFault: false
+  },
+  // Tighter hitboxes, shorter holds, a shot clock, pricier blocks and line faults reward aim over stalling
+  Competitive: {
+    preset: 'Competitive',
+    matchTime: 240,
+    warmup: 10,
+    ballCount: 6,
+    catchRevives: true,
+    holdTimeout: 7,
+    holdWarning: 3,
+    holdPenalty: 'eliminate',
+    shotClock: 10,
+    hitRadius: 0.9,
+    maxCharge: 1.5,
+    maxStamina: 100,
+    sprintCost: 45,
+    chargeStaminaDrain: 20,
+    blockStaminaDrain: 40,
+    throwStaminaCost: 12,
+    chargedThrowStaminaCost: 20,
+    centerLine: 0.5,
+    lineFault: true
+  },
+  Arcade: {
+    preset: 'Arcade',
+    matchTime: 120,
+    warmup: 3,
+    ballCount: 10,
+    catchRevives: false,
+    holdTimeout: 15,
+    holdWarning: 5,
+    holdPenalty: 'drop',
+    shotClock: 0,
+    hitRadius: 1.2,
+    maxCharge: 2,
+    maxStamina: 150,
+    sprintCost: 25,
+    chargeStaminaDrain: 10,
+    blockStaminaDrain: 20,
+    throwStaminaCost: 5,
+    chargedThrowStaminaCost: 10,
+    centerLine: 0.5,
+    lineFault: false
+  }
+};
+
+export const DEFAULT_RULESET = RULESET_PRESETS.Classic;
+
+export function isRulesetPreset(value: unknown): value is RulesetPreset {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(RULESET_PRESETS, value);
+}
+
+// Allowed range for every numeric rule
+const LIMITS: { [K in keyof Ruleset]?: [number, number] } = {
+  matchTime: [30, 900],
+  warmup: [0, 60],
+  ballCount: [1, 16],
+  holdTimeout: [1, 60],
+  holdWarning: [0, 30],
+  shotClock: [0, 60],
+  hitRadius: [0.5, 2],
+  maxCharge: [0.5, 3],
+  maxStamina: [10, 500],
+  sprintCost: [0, 200],
+  chargeStaminaDrain: [0, 200],
+  blockStaminaDrain: [0, 200],
+  throwStaminaCost: [0, 100],
+  chargedThrowStaminaCost: [0, 100],
+  centerLine: [0, 5]
+};
+
+// Returns a list of problems, empty when the ruleset is valid
+export function validateRuleset(ruleset: Ruleset): string[] {
+  const problems: string[] = [];
+  if (!isRulesetPreset(ruleset.preset)) problems.push(`Unknown preset '${ruleset.preset}'`);
+  if (typeof ruleset.catchRevives !== 'boolean') problems.push('catchRevives must be a boolean');
+  if (typeof ruleset.lineFault !== 'boolean') problems.push('lineFault must be a boolean');
+  if (ruleset.holdPenalty !== 'drop' && ruleset.holdPenalty !== 'eliminate') problems.push(`Unknown holdPenalty '${ruleset.holdPenalty}'`);
+
+  (Object.keys(LIMITS) as (keyof Ruleset)[]).forEach(key => {
+    const [min, max] = LIMITS[key]!;
+    const value = ruleset[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      problems.push(`${key} must be a number`);
+    } else if (value < min || value > max) {
+      problems.push(`${key} must be between ${min} and ${max}`);
+    }
+  });
+  if (!Number.isInteger(ruleset.ballCount)) problems.push('ballCount must be a whole number');
+  if (ruleset.holdWarning >= ruleset.holdTimeout) problems.push('holdWarning must be shorter than holdTimeout');
+
+  return problems;
+}
+
+// A preset with some rules overridden. Throws if the result is not a valid ruleset.
+export function createRuleset(preset: RulesetPreset, overrides: Partial<Ruleset> = {}): Ruleset {
+  const ruleset: Ruleset = { ...RULESET_PRESETS[preset], ...overrides, preset };
+  const problems = validateRuleset(ruleset);
+  if (problems.length > 0) throw new Error(`Invalid ruleset: ${problems.join(', ')}`);
+  return ruleset;
+}
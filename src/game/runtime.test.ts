@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { runFixedSteps, seededRandom } from './runtime';
+import { TICK_DT } from './network/protocol';
+
+describe('seededRandom', () => {
+  it('repeats its sequence for the same seed', () => {
+    const a = seededRandom(42);
+    const b = seededRandom(42);
+    for (let i = 0; i < 1000; i++) assert.equal(a(), b());
+  });
+
+  it('gives a different sequence for another seed', () => {
+    const a = seededRandom(1);
+    const b = seededRandom(2);
+    const same = Array.from({ length: 100 }, () => a() === b()).filter(Boolean).length;
+    assert.ok(same < 5);
+  });
+
+  it('stays in [0, 1)', () => {
+    const random = seededRandom(7);
+    for (let i = 0; i < 10000; i++) {
+      const value = random();
+      assert.ok(value >= 0 && value < 1);
+    }
+  });
+});
+
+describe('runFixedSteps', () => {
+  // Counts steps over `frames`, carrying the leftover as a game loop would
+  function countSteps(frames: number[], maxBacklog?: number) {
+    let steps = 0;
+    let accumulator = 0;
+    frames.forEach(delta => {
+      accumulator = runFixedSteps(accumulator, delta, TICK_DT, () => steps++, maxBacklog);
+    });
+    return { steps, accumulator };
+  }
+
+  it('takes the same steps in one batch as split across frames', () => {
+    const random = seededRandom(3);
+    const ticks = 300;
+    // Irregular frames between 1ms and 50ms that add up to exactly `ticks` ticks
+    const frames: number[] = [];
+    let left = ticks * TICK_DT;
+    while (left > 0) {
+      const delta = Math.min(left, 0.001 + random() * 0.049);
+      frames.push(delta);
+      left -= delta;
+    }
+
+    assert.equal(countSteps([ticks * TICK_DT]).steps, ticks);
+    assert.equal(countSteps(frames).steps, ticks);
+    assert.equal(countSteps(Array(ticks * 2).fill(TICK_DT / 2)).steps, ticks);
+    assert.equal(countSteps(Array(ticks * 3).fill(TICK_DT / 3)).steps, ticks);
+  });
+
+  it('carries part of a tick into the next frame', () => {
+    const { steps, accumulator } = countSteps([TICK_DT * 2.5]);
+    assert.equal(steps, 2);
+    assert.ok(Math.abs(accumulator - TICK_DT / 2) < 1e-9);
+    assert.equal(countSteps([TICK_DT * 0.6, TICK_DT * 0.6]).steps, 1);
+  });
+
+  it('drops time past the backlog limit', () => {
+    assert.equal(countSteps([5], TICK_DT * 10).steps, 10);
+  });
+});
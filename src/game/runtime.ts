@@ -0,0 +1,37 @@
+// Where match code gets the time and its random numbers. Live play uses the wall clock and Math.random;
+// the headless simulator passes a clock it advances itself and a seeded generator, so a seed replays a match.
+export interface Runtime {
+  now(): number; // Milliseconds
+  random(): number; // In [0, 1)
+}
+
+export const REAL_RUNTIME: Runtime = {
+  now: () => Date.now(),
+  random: () => Math.random()
+};
+
+// mulberry32: tiny and fast, and plenty for gameplay rolls
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Turns frame time into whole fixed steps, so a simulation advances the same however the frames slice the time.
+// Returns the leftover to carry into the next frame; maxBacklog bounds the catch-up after a long stall.
+// Frame times rarely sum to a tick exactly, so a step is taken once the time is within STEP_EPSILON of one.
+const STEP_EPSILON = 1e-9;
+
+export function runFixedSteps(accumulator: number, delta: number, dt: number, step: () => void, maxBacklog: number = Infinity) {
+  let time = Math.min(accumulator + delta, maxBacklog);
+  while (time >= dt - STEP_EPSILON) {
+    time -= dt;
+    step();
+  }
+  return Math.max(0, time);
+}